@@ -0,0 +1,129 @@
+/**
+ * Options for writing a single value to remote storage.
+ */
+export type StorageSetOptions = {
+  ttl?: number // time-to-live in milliseconds, 0 or undefined for no expiry
+  keepTtl?: boolean // keep the key's current expiry instead of clearing it
+}
+
+/**
+ * A value to write with StorageAdapter#setMany.
+ */
+export type StorageEntry = {
+  key: string
+  value: string
+  ttl?: number // time-to-live in milliseconds, 0 or undefined for no expiry
+}
+
+/**
+ * One page of keys listed with StorageAdapter#scan.
+ */
+export type ScanPage = {
+  keys: string[]
+  cursor: string | null // pass to the next scan call, null after the last page
+}
+
+/**
+ * Remote storage backing a write-through SuperLRU cache. Keys and values are
+ * strings: the cache hashes keys and serializes, compresses and encrypts values
+ * before they reach the adapter.
+ */
+export interface StorageAdapter {
+  /**
+   * Reads a value.
+   * @param {string} key - The storage key.
+   * @returns {Promise<string | null>} The value, or null if missing or expired.
+   */
+  get(key: string): Promise<string | null>
+
+  /**
+   * Writes a value.
+   * @param {string} key - The storage key.
+   * @param {string} value - The value.
+   * @param {StorageSetOptions} [options] - Expiry options.
+   */
+  set(key: string, value: string, options?: StorageSetOptions): Promise<void>
+
+  /**
+   * Removes a value. Removing a missing key is not an error.
+   * @param {string} key - The storage key.
+   */
+  delete(key: string): Promise<void>
+
+  /**
+   * Reads several values at once.
+   * @param {string[]} keys - The storage keys.
+   * @returns {Promise<Array<string | null>>} The values, in the order of the keys.
+   */
+  getMany(keys: string[]): Promise<Array<string | null>>
+
+  /**
+   * Writes several values at once.
+   * @param {StorageEntry[]} entries - The values to write.
+   */
+  setMany(entries: StorageEntry[]): Promise<void>
+
+  /**
+   * Removes several values at once.
+   * @param {string[]} keys - The storage keys.
+   */
+  deleteMany(keys: string[]): Promise<void>
+
+  /**
+   * Returns the remaining time-to-live of a key.
+   * @param {string} key - The storage key.
+   * @returns {Promise<number | null>} Remaining milliseconds, or null if the key has no expiry or does not exist.
+   */
+  ttl(key: string): Promise<number | null>
+
+  /**
+   * Lists the keys that start with a prefix, skipping expired ones.
+   * @param {string} prefix - The key prefix, an empty string lists every key.
+   * @returns {Promise<string[]>} The matching keys, in no particular order.
+   */
+  keys(prefix: string): Promise<string[]>
+
+  /**
+   * Lists one page of the keys that start with a prefix, so a large keyspace
+   * can be worked through without holding every key at once. Keys deleted
+   * between pages must not make the scan skip others. Without it, the cache
+   * lists keys with keys() as a single page.
+   * @param {string} prefix - The key prefix, an empty string lists every key.
+   * @param {string | null} cursor - Null for the first page, then the cursor of the previous page.
+   * @returns {Promise<ScanPage>} The page's keys, in no particular order, and the cursor of the next page.
+   */
+  scan?(prefix: string, cursor: string | null): Promise<ScanPage>
+
+  /**
+   * Adds members to the set stored at a key, creating the set if it is
+   * missing. The cache keeps the remote keys carrying a tag in such a set;
+   * with an adapter that does not implement sets, tags are only tracked in memory.
+   * The set's expiry is only ever extended, so it outlives its longest-lived member.
+   * @param {string} key - The storage key of the set.
+   * @param {string[]} members - The members to add.
+   * @param {number} [ttl] - Milliseconds the set must live at least, 0 or undefined to keep it without expiry.
+   */
+  addMembers?(key: string, members: string[], ttl?: number): Promise<void>
+
+  /**
+   * Reads the members of the set stored at a key.
+   * @param {string} key - The storage key of the set.
+   * @returns {Promise<string[]>} The members in no particular order, empty if the set does not exist.
+   */
+  members?(key: string): Promise<string[]>
+
+  /**
+   * Removes every value held by the adapter.
+   */
+  clear(): Promise<void>
+
+  /**
+   * Waits until the adapter can serve requests, for example until a connection is open.
+   */
+  ready?(): Promise<void>
+
+  /**
+   * Releases connections or other resources held by the adapter.
+   */
+  close?(): Promise<void>
+}
@@ -0,0 +1,207 @@
+import crypto from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { StorageAdapter, StorageEntry, StorageSetOptions } from './adapter'
+
+/**
+ * Longest file name used for an encoded key, leaving room for the temporary
+ * file suffix within the usual 255-byte limit. Longer keys are hashed.
+ */
+const MAX_NAME_LENGTH = 200
+
+/**
+ * The JSON document stored in each file. Sets have no value. The key is kept
+ * since hashed file names cannot be decoded.
+ */
+type FileRecord = {
+  key: string
+  value: string | null
+  members?: string[]
+  expires: number | null
+}
+
+/**
+ * A StorageAdapter keeping one file per key in a local directory. Files are
+ * written to a temporary name and renamed, so readers never see partial writes.
+ */
+export class FileSystemAdapter implements StorageAdapter {
+  private directory: string
+
+  /**
+   * @param {object} options - Configuration options.
+   * @param {string} options.directory - Directory dedicated to the adapter's files, created if missing.
+   */
+  constructor({ directory }: { directory: string }) {
+    this.directory = directory
+  }
+
+  /**
+   * Maps a storage key to its file path. Keys are base64url-encoded behind a
+   * `k`, so no key names a path such as `..` or an empty name; keys too long
+   * for a file name are SHA-256 hashed behind an `h` instead.
+   * @private
+   * @param {string} key - The storage key.
+   * @returns {string} The file path.
+   */
+  private _path(key: string): string {
+    let name = `k${Buffer.from(key).toString('base64url')}`
+    if (name.length > MAX_NAME_LENGTH) {
+      name = `h${crypto.createHash('sha256').update(key).digest('hex')}`
+    }
+    return path.join(this.directory, name)
+  }
+
+  /**
+   * Recovers the storage key of a file, decoding its name or, for a hashed
+   * name, reading the key recorded in it.
+   * @private
+   * @param {string} file - The file name.
+   * @returns {Promise<string | null>} The key, or null if the file is not one of the adapter's or was removed.
+   */
+  private async _key(file: string): Promise<string | null> {
+    if (file.startsWith('k')) return Buffer.from(file.slice(1), 'base64url').toString()
+    if (!file.startsWith('h')) return null
+    try {
+      const record: FileRecord = JSON.parse(await fs.readFile(path.join(this.directory, file), 'utf8'))
+      return record.key
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw e
+    }
+  }
+
+  /**
+   * Reads the live record for a key, removing its file if it has expired.
+   * @private
+   * @param {string} key - The storage key.
+   * @returns {Promise<FileRecord | null>} The record, or null if missing or expired.
+   */
+  private async _read(key: string): Promise<FileRecord | null> {
+    let contents: string
+    try {
+      contents = await fs.readFile(this._path(key), 'utf8')
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw e
+    }
+    const record: FileRecord = JSON.parse(contents)
+    if (record.expires != null && record.expires <= Date.now()) {
+      await this.delete(key)
+      return null
+    }
+    return record
+  }
+
+  public async get(key: string): Promise<string | null> {
+    const record = await this._read(key)
+    return record ? record.value : null
+  }
+
+  public async set(key: string, value: string, { ttl, keepTtl = false }: StorageSetOptions = {}): Promise<void> {
+    let expires: number | null = null
+    if (ttl != null && ttl > 0) {
+      expires = Date.now() + ttl
+    } else if (keepTtl) {
+      const record = await this._read(key)
+      expires = record ? record.expires : null
+    }
+    await this._write(key, { key, value, expires })
+  }
+
+  public async delete(key: string): Promise<void> {
+    await fs.rm(this._path(key), { force: true })
+  }
+
+  public async getMany(keys: string[]): Promise<Array<string | null>> {
+    return Promise.all(keys.map((key) => this.get(key)))
+  }
+
+  public async setMany(entries: StorageEntry[]): Promise<void> {
+    await Promise.all(entries.map(({ key, value, ttl }) => this.set(key, value, { ttl })))
+  }
+
+  public async deleteMany(keys: string[]): Promise<void> {
+    await Promise.all(keys.map((key) => this.delete(key)))
+  }
+
+  public async ttl(key: string): Promise<number | null> {
+    const record = await this._read(key)
+    if (!record || record.expires == null) return null
+    return record.expires - Date.now()
+  }
+
+  public async keys(prefix: string): Promise<string[]> {
+    const files = (await this._files()).filter((file) => !file.endsWith('.tmp'))
+    const keys = (await Promise.all(files.map((file) => this._key(file)))).filter(
+      (key): key is string => key != null && key.startsWith(prefix)
+    )
+    const records = await Promise.all(keys.map((key) => this._read(key)))
+    return keys.filter((_, i) => records[i] != null)
+  }
+
+  /**
+   * Adds members to the set stored at a key. The file is read, updated and
+   * replaced, so concurrent additions from several processes may be lost.
+   * @param {string} key - The storage key of the set.
+   * @param {string[]} members - The members to add.
+   * @param {number} [ttl=0] - Milliseconds the set must live at least, 0 to keep it without expiry.
+   */
+  public async addMembers(key: string, members: string[], ttl: number = 0): Promise<void> {
+    if (members.length === 0) return
+    let expires = ttl > 0 ? Date.now() + ttl : null
+    const record = await this._read(key)
+    if (record) {
+      // only ever extend the expiry of an existing set
+      expires = record.expires == null || expires == null ? null : Math.max(record.expires, expires)
+    }
+    const current = record?.members ?? []
+    await this._write(key, { key, value: null, members: Array.from(new Set([...current, ...members])), expires })
+  }
+
+  public async members(key: string): Promise<string[]> {
+    const record = await this._read(key)
+    return record?.members ?? []
+  }
+
+  /**
+   * Removes every file in the directory. Use a directory dedicated to the adapter.
+   */
+  public async clear(): Promise<void> {
+    const files = await this._files()
+    await Promise.all(files.map((file) => fs.rm(path.join(this.directory, file), { force: true })))
+  }
+
+  /**
+   * Writes a record to a temporary file and renames it over the key's file,
+   * removing the temporary file if the rename fails.
+   * @private
+   * @param {string} key - The storage key.
+   * @param {FileRecord} record - The record to write.
+   */
+  private async _write(key: string, record: FileRecord): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true })
+    const file = this._path(key)
+    const temp = `${file}.${process.pid}.${Date.now()}.${Math.random().toString(36).slice(2)}.tmp`
+    try {
+      await fs.writeFile(temp, JSON.stringify(record))
+      await fs.rename(temp, file)
+    } catch (e) {
+      await fs.rm(temp, { force: true })
+      throw e
+    }
+  }
+
+  /**
+   * Lists the file names in the directory.
+   * @private
+   * @returns {Promise<string[]>} The file names, empty if the directory does not exist yet.
+   */
+  private async _files(): Promise<string[]> {
+    try {
+      return await fs.readdir(this.directory)
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw e
+    }
+  }
+}
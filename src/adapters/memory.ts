@@ -0,0 +1,97 @@
+import { StorageAdapter, StorageEntry, StorageSetOptions } from './adapter'
+
+/**
+ * An in-memory record with its absolute expiry time. Sets have no value.
+ */
+type MemoryRecord = {
+  value: string | null
+  members?: Set<string>
+  expires: number | null
+}
+
+/**
+ * A StorageAdapter keeping values in a Map. Useful for tests and for sharing
+ * one remote tier between several caches in a single process.
+ */
+export class MemoryAdapter implements StorageAdapter {
+  private records: Map<string, MemoryRecord> = new Map()
+
+  /**
+   * Returns the live record for a key, dropping it if it has expired.
+   * @private
+   * @param {string} key - The storage key.
+   * @returns {MemoryRecord | undefined} The record, or undefined if missing or expired.
+   */
+  private _record(key: string): MemoryRecord | undefined {
+    const record = this.records.get(key)
+    if (record && record.expires != null && record.expires <= Date.now()) {
+      this.records.delete(key)
+      return undefined
+    }
+    return record
+  }
+
+  public async get(key: string): Promise<string | null> {
+    const record = this._record(key)
+    return record ? record.value : null
+  }
+
+  public async set(key: string, value: string, { ttl, keepTtl = false }: StorageSetOptions = {}): Promise<void> {
+    let expires: number | null = null
+    if (ttl != null && ttl > 0) {
+      expires = Date.now() + ttl
+    } else if (keepTtl) {
+      const record = this._record(key)
+      expires = record ? record.expires : null
+    }
+    this.records.set(key, { value, expires })
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.records.delete(key)
+  }
+
+  public async getMany(keys: string[]): Promise<Array<string | null>> {
+    return Promise.all(keys.map((key) => this.get(key)))
+  }
+
+  public async setMany(entries: StorageEntry[]): Promise<void> {
+    await Promise.all(entries.map(({ key, value, ttl }) => this.set(key, value, { ttl })))
+  }
+
+  public async deleteMany(keys: string[]): Promise<void> {
+    await Promise.all(keys.map((key) => this.delete(key)))
+  }
+
+  public async ttl(key: string): Promise<number | null> {
+    const record = this._record(key)
+    if (!record || record.expires == null) return null
+    return record.expires - Date.now()
+  }
+
+  public async keys(prefix: string): Promise<string[]> {
+    return Array.from(this.records.keys()).filter((key) => key.startsWith(prefix) && this._record(key) != null)
+  }
+
+  public async addMembers(key: string, members: string[], ttl: number = 0): Promise<void> {
+    if (members.length === 0) return
+    const expires = ttl > 0 ? Date.now() + ttl : null
+    const record = this._record(key)
+    if (record?.members) {
+      members.forEach((member) => record.members!.add(member))
+      if (record.expires != null) {
+        record.expires = expires == null ? null : Math.max(record.expires, expires)
+      }
+    } else {
+      this.records.set(key, { value: null, members: new Set(members), expires })
+    }
+  }
+
+  public async members(key: string): Promise<string[]> {
+    return Array.from(this._record(key)?.members ?? [])
+  }
+
+  public async clear(): Promise<void> {
+    this.records.clear()
+  }
+}
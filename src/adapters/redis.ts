@@ -0,0 +1,265 @@
+import { createClient, RedisClientOptions, RedisClientType } from 'redis'
+import { ConnectionOptions } from 'tls'
+import { ScanPage, StorageAdapter, StorageEntry, StorageSetOptions } from './adapter'
+
+/**
+ * Decides whether and when to reconnect after the connection is lost:
+ * false stops, a number of milliseconds waits that long, an Error gives up with it.
+ */
+export type ReconnectStrategy = false | number | ((retries: number, cause: Error) => false | Error | number)
+
+/**
+ * Redis connection configuration. Give an existing client, a full URL, or
+ * the parts to build one from.
+ */
+export type RedisConfig = {
+  client?: RedisClientType // an existing client, used as-is: its owner listens for its errors and closes it
+  url?: string // redis[s]://[[user][:pass]@]host[:port][/db]
+  user?: string
+  pass?: string
+  host?: string // host, or host:port
+  port?: number
+  db?: number
+  tls?: boolean | ConnectionOptions // true, or Node.js TLS options such as ca, cert and servername
+  connectTimeout?: number // milliseconds to wait for the connection to open
+  reconnectStrategy?: ReconnectStrategy
+}
+
+/**
+ * Adds ARGV[2..] to the set at KEYS[1] and keeps it alive for at least ARGV[1]
+ * milliseconds: a new set expires then, an expiring set is extended if it
+ * would expire sooner, and 0 removes the expiry.
+ */
+const ADD_MEMBERS_SCRIPT = `
+local existed = redis.call('EXISTS', KEYS[1])
+redis.call('SADD', KEYS[1], unpack(ARGV, 2))
+local ttl = tonumber(ARGV[1])
+if ttl == 0 then
+  redis.call('PERSIST', KEYS[1])
+else
+  local remaining = redis.call('PTTL', KEYS[1])
+  if existed == 0 or (remaining >= 0 and remaining < ttl) then
+    redis.call('PEXPIRE', KEYS[1], ttl)
+  end
+end
+`
+
+const MEMBERS_BATCH_SIZE = 1000
+
+/**
+ * Called with connection errors, including failed reconnection attempts.
+ */
+type ErrorFunction = (error: Error) => void
+
+/**
+ * A StorageAdapter backed by Redis. Expiries map to Redis key expiries and
+ * bulk writes are sent as a single pipeline.
+ */
+export class RedisAdapter implements StorageAdapter {
+  public readonly client: RedisClientType
+  private connecting?: Promise<void>
+
+  /**
+   * Creates an adapter around an existing Redis client. The caller is
+   * responsible for connecting it.
+   * @param {RedisClientType} client - The Redis client.
+   */
+  constructor(client: RedisClientType) {
+    this.client = client
+  }
+
+  /**
+   * Creates a client from connection configuration, or takes the configured
+   * client, starts connecting it unless it is already open and returns an
+   * adapter around it. Only a client created here gets an error listener, a
+   * configured client may be shared and its owner listens for its errors.
+   * @param {RedisConfig} config - Redis connection configuration.
+   * @param {ErrorFunction} [onError=console.error] - Receives connection errors, and reconnection errors of a created client.
+   * @returns {RedisAdapter} The adapter.
+   */
+  public static fromConfig(config: RedisConfig, onError: ErrorFunction = console.error): RedisAdapter {
+    let client = config.client
+    if (client == null) {
+      client = createClient(RedisAdapter.clientOptions(config)) as RedisClientType
+      // without an error listener, node-redis crashes the process on a connection error
+      client.on('error', onError)
+    }
+    const adapter = new RedisAdapter(client)
+    if (!client.isOpen) {
+      adapter.connecting = client.connect().then(() => undefined)
+      adapter.connecting.catch(onError)
+    }
+    return adapter
+  }
+
+  /**
+   * Translates connection configuration into node-redis client options.
+   * @param {RedisConfig} config - Redis connection configuration.
+   * @returns {RedisClientOptions} The client options.
+   */
+  public static clientOptions({
+    url,
+    user,
+    pass = '',
+    host,
+    port,
+    db,
+    tls,
+    connectTimeout,
+    reconnectStrategy
+  }: RedisConfig): RedisClientOptions {
+    const options: RedisClientOptions = {}
+    if (url != null) {
+      options.url = url
+    } else if (host != null) {
+      const auth = user != null ? `${user}:${pass}@` : ''
+      options.url = `redis://${auth}${host}${port != null ? `:${port}` : ''}`
+    }
+    if (db != null) {
+      options.database = db
+    }
+    const socket: { [option: string]: unknown } = {}
+    if (tls) {
+      Object.assign(socket, tls === true ? {} : tls, { tls: true })
+    }
+    if (connectTimeout != null) {
+      socket.connectTimeout = connectTimeout
+    }
+    if (reconnectStrategy !== undefined) {
+      socket.reconnectStrategy = reconnectStrategy
+    }
+    if (Object.keys(socket).length > 0) {
+      options.socket = socket as RedisClientOptions['socket']
+    }
+    return options
+  }
+
+  /**
+   * Waits for the connection started by fromConfig to open.
+   * @returns {Promise<void>} Resolves once connected, rejects if connecting failed.
+   */
+  public async ready(): Promise<void> {
+    await this.connecting
+  }
+
+  /**
+   * Closes the connection once pending commands have been answered. A
+   * connection that is still being opened, or retried, is dropped instead,
+   * since it may never open.
+   */
+  public async close(): Promise<void> {
+    if (this.client.isReady) {
+      await this.client.quit()
+    } else if (this.client.isOpen) {
+      await this.client.disconnect()
+    }
+  }
+
+  public async get(key: string): Promise<string | null> {
+    return this.client.get(key)
+  }
+
+  public async set(key: string, value: string, { ttl, keepTtl = false }: StorageSetOptions = {}): Promise<void> {
+    if (ttl != null && ttl > 0) {
+      await this.client.set(key, value, { PX: ttl })
+    } else if (keepTtl) {
+      await this.client.set(key, value, { KEEPTTL: true })
+    } else {
+      await this.client.set(key, value)
+    }
+  }
+
+  public async delete(key: string): Promise<void> {
+    await this.client.del(key)
+  }
+
+  public async getMany(keys: string[]): Promise<Array<string | null>> {
+    if (keys.length === 0) return []
+    return this.client.mGet(keys)
+  }
+
+  public async setMany(entries: StorageEntry[]): Promise<void> {
+    if (entries.length === 0) return
+    const pipeline = this.client.multi()
+    for (const { key, value, ttl } of entries) {
+      if (ttl != null && ttl > 0) {
+        pipeline.set(key, value, { PX: ttl })
+      } else {
+        pipeline.set(key, value)
+      }
+    }
+    await pipeline.execAsPipeline()
+  }
+
+  public async deleteMany(keys: string[]): Promise<void> {
+    if (keys.length === 0) return
+    await this.client.del(keys)
+  }
+
+  public async ttl(key: string): Promise<number | null> {
+    const remaining = await this.client.pTTL(key)
+    // -1: no expiry, -2: missing key
+    return remaining >= 0 ? remaining : null
+  }
+
+  /**
+   * Lists matching keys with SCAN, so the server is never blocked the way KEYS would block it.
+   * @param {string} prefix - The key prefix, glob characters in it are matched literally.
+   * @returns {Promise<string[]>} The matching keys.
+   */
+  public async keys(prefix: string): Promise<string[]> {
+    const keys: string[] = []
+    for await (const key of this.client.scanIterator({ MATCH: this._match(prefix), COUNT: 100 })) {
+      keys.push(key)
+    }
+    return keys
+  }
+
+  /**
+   * Lists one page of matching keys with a single SCAN call.
+   * @param {string} prefix - The key prefix, glob characters in it are matched literally.
+   * @param {string | null} cursor - Null for the first page, then the cursor of the previous page.
+   * @returns {Promise<ScanPage>} The page's keys, and the cursor of the next page.
+   */
+  public async scan(prefix: string, cursor: string | null): Promise<ScanPage> {
+    const reply = await this.client.scan(Number(cursor ?? 0), { MATCH: this._match(prefix), COUNT: 100 })
+    // SCAN is done when the server hands back cursor 0
+    return { keys: reply.keys as string[], cursor: reply.cursor === 0 ? null : String(reply.cursor) }
+  }
+
+  /**
+   * Adds members to a set with SADD and extends its expiry in the same
+   * script, so the set and its expiry change together.
+   * @param {string} key - The storage key of the set.
+   * @param {string[]} members - The members to add.
+   * @param {number} [ttl=0] - Milliseconds the set must live at least, 0 to keep it without expiry.
+   */
+  public async addMembers(key: string, members: string[], ttl: number = 0): Promise<void> {
+    // Lua unpack is limited in how many values it can spread
+    for (let i = 0; i < members.length; i += MEMBERS_BATCH_SIZE) {
+      const batch = members.slice(i, i + MEMBERS_BATCH_SIZE)
+      await this.client.eval(ADD_MEMBERS_SCRIPT, { keys: [key], arguments: [String(ttl), ...batch] })
+    }
+  }
+
+  public async members(key: string): Promise<string[]> {
+    return this.client.sMembers(key)
+  }
+
+  /**
+   * Removes every key in the selected Redis database.
+   */
+  public async clear(): Promise<void> {
+    await this.client.flushDb()
+  }
+
+  /**
+   * Turns a key prefix into a SCAN pattern.
+   * @private
+   * @param {string} prefix - The key prefix.
+   * @returns {string} The pattern, with glob characters in the prefix escaped.
+   */
+  private _match(prefix: string): string {
+    return `${prefix.replace(/[*?[\]\\]/g, '\\$&')}*`
+  }
+}
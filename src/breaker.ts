@@ -0,0 +1,129 @@
+/**
+ * 'closed' lets calls through, 'open' rejects them until the cooldown has
+ * passed, 'half-open' lets a single probe through to decide between the two.
+ */
+export type BreakerState = 'closed' | 'open' | 'half-open'
+
+/**
+ * Circuit breaker tuning options.
+ */
+export type CircuitBreakerOptions = {
+  failureThreshold?: number // consecutive failures that open the circuit
+  cooldown?: number // milliseconds before an open circuit lets a probe through
+}
+
+/**
+ * Called when the breaker changes state.
+ */
+type StateChangeFunction = (state: BreakerState, previous: BreakerState) => void
+
+/**
+ * Stops calls to a failing dependency. After failureThreshold consecutive
+ * failures the circuit opens and calls are rejected without being attempted;
+ * once the cooldown has passed a single probe is let through, which closes
+ * the circuit if it succeeds and opens it again if it fails.
+ */
+export class CircuitBreaker {
+  public state: BreakerState = 'closed'
+  private failureThreshold: number
+  private cooldown: number
+  private onStateChange?: StateChangeFunction
+  private failures: number = 0
+  private openedAt: number = 0
+  private probing: boolean = false
+
+  /**
+   * @param {CircuitBreakerOptions} options - Tuning options.
+   * @param {number} [options.failureThreshold=5] - Consecutive failures that open the circuit.
+   * @param {number} [options.cooldown=30000] - Milliseconds before an open circuit lets a probe through.
+   * @param {StateChangeFunction} [onStateChange] - Called when the breaker changes state.
+   */
+  constructor({ failureThreshold = 5, cooldown = 30000 }: CircuitBreakerOptions, onStateChange?: StateChangeFunction) {
+    this.failureThreshold = failureThreshold
+    this.cooldown = cooldown
+    this.onStateChange = onStateChange
+  }
+
+  /**
+   * Checks whether a call may be attempted now. Moves an open circuit whose
+   * cooldown has passed to half-open, and claims the probe in that state.
+   * Report the outcome of an allowed call with success() or failure().
+   * @returns {boolean} True if the call may be attempted.
+   */
+  public allow(): boolean {
+    if (this.state === 'closed') return true
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.cooldown) return false
+      this._transition('half-open')
+    }
+    if (this.probing) return false
+    this.probing = true
+    return true
+  }
+
+  /**
+   * Checks whether calls are rejected without being attempted right now: the
+   * circuit is open and cooling down, or half-open with its probe in flight.
+   * Unlike allow(), it changes nothing.
+   * @returns {boolean} True if a call would be rejected.
+   */
+  public blocked(): boolean {
+    if (this.state === 'open') return Date.now() - this.openedAt < this.cooldown
+    return this.state === 'half-open' && this.probing
+  }
+
+  /**
+   * Records a successful call, closing the circuit.
+   */
+  public success(): void {
+    this.failures = 0
+    this.probing = false
+    this._transition('closed')
+  }
+
+  /**
+   * Records a failed call, opening the circuit after too many failures in a
+   * row or when the probe fails.
+   */
+  public failure(): void {
+    this.failures++
+    this.probing = false
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now()
+      this._transition('open')
+    }
+  }
+
+  /**
+   * Runs a call through the breaker.
+   * @param {() => Promise<T>} operation - The call.
+   * @returns {Promise<T>} The call's result; rejects without calling when the circuit is open.
+   */
+  public async run<T>(operation: () => Promise<T>): Promise<T> {
+    if (!this.allow()) {
+      throw new Error('remote storage is unavailable, the circuit breaker is open')
+    }
+    try {
+      const result = await operation()
+      this.success()
+      return result
+    } catch (error) {
+      this.failure()
+      throw error
+    }
+  }
+
+  /**
+   * Changes state and notifies the listener.
+   * @private
+   * @param {BreakerState} state - The new state.
+   */
+  private _transition(state: BreakerState): void {
+    const previous = this.state
+    if (state === previous) return
+    this.state = state
+    if (this.onStateChange) {
+      this.onStateChange(state, previous)
+    }
+  }
+}
@@ -1,6 +1,44 @@
 import crypto from 'crypto'
-import { createClient, RedisClientType } from 'redis'
+import { EventEmitter } from 'events'
+import { promises as fs } from 'fs'
 import zlib from 'zlib'
+import { ScanPage, StorageAdapter } from './adapters/adapter'
+import { RedisAdapter, RedisConfig } from './adapters/redis'
+import { BreakerState, CircuitBreaker, CircuitBreakerOptions } from './breaker'
+import { InvalidationBus, InvalidationMessage } from './invalidation/bus'
+import { RedisInvalidationBus } from './invalidation/redis'
+import { FifoPolicy } from './policies/fifo'
+import { LfuPolicy } from './policies/lfu'
+import { LruPolicy } from './policies/lru'
+import { EvictionPolicy, PolicyNode } from './policies/policy'
+import { TinyLfuPolicy } from './policies/tinylfu'
+import { WriteBehindOptions, WriteBehindQueue } from './queue'
+import { canonicalKeySerializer, defaultSerializer, KeySerializer, legacyKeySerializer, Serializer } from './serializer'
+import { LatencyStats, LatencyTracker } from './stats'
+
+export { ScanPage, StorageAdapter, StorageEntry, StorageSetOptions } from './adapters/adapter'
+export { FileSystemAdapter } from './adapters/filesystem'
+export { MemoryAdapter } from './adapters/memory'
+export { ReconnectStrategy, RedisAdapter, RedisConfig } from './adapters/redis'
+export { BreakerState, CircuitBreakerOptions } from './breaker'
+export {
+  InvalidationBus,
+  InvalidationErrorListener,
+  InvalidationListener,
+  InvalidationMessage
+} from './invalidation/bus'
+export { LocalInvalidationBus } from './invalidation/local'
+export { RedisInvalidationBus } from './invalidation/redis'
+export { FifoPolicy } from './policies/fifo'
+export { LfuPolicy } from './policies/lfu'
+export { LruPolicy } from './policies/lru'
+export { EvictionPolicy, NodeList, PolicyNode } from './policies/policy'
+export { FrequencySketch } from './policies/sketch'
+export { TinyLfuOptions, TinyLfuPolicy } from './policies/tinylfu'
+export { OverflowPolicy, WriteBehindOptions } from './queue'
+export { canonicalKeySerializer, defaultSerializer, KeySerializer, Serializer } from './serializer'
+export { MetricsOptions, MetricsRegistry, MetricsSource } from './metrics'
+export { LatencyStats } from './stats'
 
 /**
  * Type alias for a key-value function callback.
@@ -9,20 +47,330 @@ import zlib from 'zlib'
  */
 type KVFunction<K, V> = (key: K, value: V) => void
 
+/**
+ * Reason an entry left the cache, or its value was replaced.
+ * - `capacity`: evicted to make room for a newer entry.
+ * - `expired`: its time-to-live elapsed.
+ * - `deleted`: removed explicitly with `unset` or `invalidateTag`.
+ * - `overwritten`: its value was replaced by a newer one, the entry stays.
+ * - `invalidated`: another instance changed the key.
+ * - `cleared`: removed by `clear` with `notify`.
+ */
+type EvictionReason = 'capacity' | 'expired' | 'deleted' | 'overwritten' | 'invalidated' | 'cleared'
+
+/**
+ * Callback invoked when an entry leaves the cache.
+ * @template K - The type of the key.
+ * @template V - The type of the value.
+ */
+type EvictionFunction<K, V> = (key: K, value: V, reason: EvictionReason) => void
+
+/**
+ * Callback invoked with a key.
+ * @template K - The type of the key.
+ */
+type KeyFunction<K> = (key: K) => void
+
+/**
+ * Function computing the size of an entry in bytes.
+ * @template K - The type of the key.
+ * @template V - The type of the value.
+ */
+type SizeFunction<K, V> = (key: K, value: V) => number
+
+/**
+ * Function loading the value for a key on a cache miss.
+ * Returning null or undefined leaves the cache untouched.
+ * @template K - The type of the key.
+ * @template V - The type of the value.
+ */
+type Loader<K, V> = (key: K) => Promise<V | null | undefined> | V | null | undefined
+
+/**
+ * Time-to-live of an entry and the deadlines derived from it, as absolute times in ms.
+ * An entry is fresh until `freshUntil`, may be served stale while it is refreshed
+ * until `staleUntil`, and expires after that. Null deadlines never pass.
+ */
+type Lifetime = {
+  ttl: number
+  freshUntil: number | null
+  staleUntil: number | null
+}
+
+/**
+ * Per-call options for `set`.
+ */
+type SetOptions = {
+  ttl?: number // time-to-live in milliseconds, overrides the cache's defaultTtl
+  tags?: string[] // groups the entry can be invalidated by with invalidateTag
+}
+
+/**
+ * Options for `clear`.
+ */
+type ClearOptions = {
+  memory?: boolean // empty the in-memory cache
+  remote?: boolean // delete the namespace's remote keys
+  notify?: boolean // emit evict for every in-memory entry removed
+}
+
+/**
+ * A value read from remote storage, or queued for it, with its remaining
+ * time-to-live in milliseconds, null for no expiry.
+ */
+type RemoteRecord = {
+  text: string | null
+  remaining: number | null
+}
+
+/**
+ * An entry in a snapshot, as it is stored in memory.
+ */
+export type SnapshotEntry = {
+  key: string // the serialized cache key
+  value: string // the stored form: compressed and/or encrypted, or the serialized value without either
+  timestamp: number
+  ttl: number
+  freshUntil: number | null
+  staleUntil: number | null
+  bytes: number
+  tags?: string[]
+}
+
+/**
+ * A JSON-serializable copy of a cache's entries, most worth keeping first.
+ */
+export type Snapshot = {
+  header: {
+    format: string
+    version: number
+    createdAt: number
+    compress: boolean // whether values are compressed, loading requires the same setting
+    encrypt: boolean // whether values are encrypted, loading requires the same setting
+    count: number
+    checksum: string // SHA-256 of the JSON entries, in hexadecimal
+  }
+  entries: SnapshotEntry[]
+}
+
+/**
+ * Options for `warm`.
+ */
+type WarmOptions = {
+  limit?: number // maximum number of entries to load, capped at maxSize
+}
+
+/**
+ * Outcome of `warm`.
+ */
+export type WarmResult = {
+  scanned: number // remote keys read
+  loaded: number // entries loaded into memory
+  skipped: number // entries already in memory, written before the key was recorded, or unreadable
+  failed: number // entries whose batch could not be read
+}
+
+/**
+ * The JSON written to remote storage: the value in its stored form together
+ * with the serialized key, encrypted like the value when encryption is on,
+ * and the entry's tags if it has any.
+ */
+type RemoteEnvelope = {
+  [ENVELOPE_MARKER]: number
+  k: string
+  v: string
+  t?: string[]
+}
+
+/**
+ * What a cache operation does when remote storage fails: 'throw' rejects,
+ * 'ignore' reports the error through the `remoteError` event and carries on
+ * memory-only.
+ */
+type FailurePolicy = 'throw' | 'ignore'
+
+/**
+ * Running totals behind `stats`. They only ever grow; flushing the
+ * statistics moves a baseline instead of resetting them.
+ */
+type Counters = {
+  hits: number
+  misses: number
+  sets: number
+  deletes: number
+  evictions: { [reason in EvictionReason]: number }
+  remote: { hits: number; misses: number; errors: number }
+}
+
+/**
+ * Running totals since the cache was created, which flushing the statistics
+ * does not reset, plus the current size. Latencies are in milliseconds.
+ */
+export type CacheCounters = Counters & {
+  latency: { [operation in 'compression' | 'encryption' | 'remote']: { count: number; total: number } }
+  size: number
+  bytes: number
+}
+
+/**
+ * Cache statistics since they were last flushed, plus the current size.
+ */
+export type CacheStats = {
+  hits: number
+  misses: number
+  hitRatio: number // hits / (hits + misses), 0 before the first read
+  sets: number
+  deletes: number
+  evictions: { [reason in EvictionReason]: number }
+  remote: { hits: number; misses: number; errors: number }
+  latency: { compression: LatencyStats; encryption: LatencyStats; remote: LatencyStats }
+  size: number
+  bytes: number // stored size counted against maxBytes
+  breaker: BreakerState | null
+}
+
+/**
+ * Creates a set of counters at zero.
+ * @returns {Counters} The counters.
+ */
+function emptyCounters(): Counters {
+  return {
+    hits: 0,
+    misses: 0,
+    sets: 0,
+    deletes: 0,
+    evictions: { capacity: 0, expired: 0, deleted: 0, overwritten: 0, invalidated: 0, cleared: 0 },
+    remote: { hits: 0, misses: 0, errors: 0 }
+  }
+}
+
 /**
  * Standard types allowed for cache values.
  */
 type StandardType = Object | string | number
 
+/**
+ * A compression codec. Custom codecs are registered under their name, which
+ * is recorded with every value they compress and must not contain a colon.
+ */
+export type Codec = {
+  name: string
+  encode(data: Buffer): Buffer
+  decode(data: Buffer): Buffer
+}
+
+/**
+ * Names of the built-in compression codecs.
+ */
+type CodecName = 'gzip' | 'deflate' | 'deflate-raw' | 'brotli' | 'none'
+
+/**
+ * Built-in compression codecs by name.
+ */
+export const codecs: { [name in CodecName]: Codec } = {
+  gzip: { name: 'gzip', encode: (data) => zlib.gzipSync(data), decode: (data) => zlib.gunzipSync(data) },
+  deflate: { name: 'deflate', encode: (data) => zlib.deflateSync(data), decode: (data) => zlib.inflateSync(data) },
+  'deflate-raw': {
+    name: 'deflate-raw',
+    encode: (data) => zlib.deflateRawSync(data),
+    decode: (data) => zlib.inflateRawSync(data)
+  },
+  brotli: {
+    name: 'brotli',
+    encode: (data) => zlib.brotliCompressSync(data),
+    decode: (data) => zlib.brotliDecompressSync(data)
+  },
+  none: { name: 'none', encode: (data) => data, decode: (data) => data }
+}
+
+/**
+ * Names of the built-in eviction policies.
+ */
+type EvictionPolicyName = 'lru' | 'lfu' | 'fifo' | 'w-tinylfu'
+
+/**
+ * Built-in eviction policies by name, created for a given maxSize.
+ */
+const policies: { [name in EvictionPolicyName]: <K>(capacity: number) => EvictionPolicy<K> } = {
+  lru: () => new LruPolicy(),
+  lfu: () => new LfuPolicy(),
+  fifo: () => new FifoPolicy(),
+  'w-tinylfu': (capacity) => new TinyLfuPolicy({ capacity })
+}
+
+/**
+ * Turns a serialized key into the key used in remote storage.
+ */
+type KeyHashFunction = (key: string) => string
+
+/**
+ * Names of the built-in key hashes.
+ */
+type KeyHashName = 'md5' | 'sha256' | 'none'
+
+/**
+ * Built-in key hashes by name. 'none' uses the serialized key as it is, for
+ * human-readable remote keys.
+ */
+const keyHashes: { [name in KeyHashName]: KeyHashFunction } = {
+  md5: (key) => md5(key),
+  sha256: (key) => crypto.createHash('sha256').update(key).digest('hex'),
+  none: (key) => key
+}
+
+/**
+ * Supported encryption algorithms. The AEAD modes (`aes-256-gcm`, `chacha20-poly1305`)
+ * use a fresh nonce per value and authenticate the ciphertext; `aes-256-cbc` uses the
+ * shared `initVector` and is kept for values written by earlier versions.
+ */
+type EncryptionAlgorithm = 'aes-256-gcm' | 'chacha20-poly1305' | 'aes-256-cbc'
+
 /**
  * Configuration options for encryption.
  */
 type EncryptionConfig = {
   algo: string
-  initVector: Buffer
+  initVector?: Buffer // only used by aes-256-cbc
   securityKey: Buffer
 }
 
+/**
+ * A set of encryption keys by key ID, and the ID of the key used for new writes.
+ */
+type Keyring = {
+  keys: { [keyId: string]: Buffer }
+  activeKeyId: string
+}
+
+const NONCE_LENGTH = 12
+const REENCRYPT_BATCH_SIZE = 100
+const CLEAR_BATCH_SIZE = 100
+const SNAPSHOT_FORMAT = 'superlru-snapshot'
+const SNAPSHOT_VERSION = 1
+const ENVELOPE_MARKER = '$superlru'
+const ENVELOPE_VERSION = 1
+const WARM_BATCH_SIZE = 100
+const TAG_BATCH_SIZE = 100
+const AUTH_TAG_LENGTH = 16
+
+/**
+ * Computes the checksum of a snapshot's entries.
+ * @param {SnapshotEntry[]} entries - The entries.
+ * @returns {string} The SHA-256 hash of their JSON, in hexadecimal.
+ */
+function snapshotChecksum(entries: SnapshotEntry[]): string {
+  return crypto.createHash('sha256').update(JSON.stringify(entries)).digest('hex')
+}
+
+/**
+ * Checks whether an algorithm is an authenticated (AEAD) cipher.
+ * @param {string} algo - The algorithm name.
+ * @returns {boolean} True for AES-256-GCM and ChaCha20-Poly1305.
+ */
+function isAuthenticated(algo: string): boolean {
+  return algo === 'aes-256-gcm' || algo === 'chacha20-poly1305'
+}
+
 /**
  * Generates an MD5 hash of the given data.
  * @param {Object|string|number} data - The data to hash.
@@ -35,48 +383,63 @@ export function md5(data: Object | string | number): string {
 }
 
 /**
- * Compresses a value using gzip and returns a Base64 string.
+ * Serializes a value, compresses it using a codec (gzip by default) and returns a Base64 string.
  * @template V - The type of the value.
  * @param {V} value - The value to compress.
+ * @param {Codec} [codec=codecs.gzip] - The compression codec.
+ * @param {Serializer} [serializer=defaultSerializer] - Turns the value into a string.
  * @returns {string} The compressed value as a Base64 encoded string.
  */
-export function compressValue<V>(value: V): string {
-  return zlib.gzipSync(JSON.stringify(value)).toString('base64')
+export function compressValue<V>(value: V, codec: Codec = codecs.gzip, serializer: Serializer = defaultSerializer): string {
+  return codec.encode(Buffer.from(serializer.serialize(value))).toString('base64')
 }
 
 /**
- * Decompresses a Base64 encoded gzip-compressed string.
+ * Decompresses a Base64 encoded compressed string.
  * @template V - The expected type of the decompressed value.
  * @param {string} value - The Base64 encoded compressed string.
+ * @param {Codec} [codec=codecs.gzip] - The codec the value was compressed with.
  * @returns {string} The decompressed string.
  */
-export function decompressValue<V>(value: string): string {
+export function decompressValue<V>(value: string, codec: Codec = codecs.gzip): string {
   const buffer = Buffer.from(value, 'base64')
-  return zlib.gunzipSync(buffer).toString('utf8')
+  return codec.decode(buffer).toString('utf8')
 }
 
 /**
  * Encrypts a value using the provided encryption configuration.
+ * Authenticated algorithms generate a random nonce for every call and return
+ * Base64 of nonce, auth tag and ciphertext concatenated.
  * @template V - The type of the value.
+ * Strings are encrypted as-is, other values are serialized first.
  * @param {V} value - The value to encrypt.
  * @param {EncryptionConfig} encryption - The encryption configuration.
+ * @param {Serializer} [serializer=defaultSerializer] - Turns non-string values into a string.
  * @returns {{ encrypted: string; type: string }} The encrypted value and its type.
  */
 export function encryptValue<V extends StandardType>(
   value: V,
-  encryption: EncryptionConfig
+  encryption: EncryptionConfig,
+  serializer: Serializer = defaultSerializer
 ): { encrypted: string; type: string } {
   const { algo, securityKey, initVector } = encryption
-  const cipher = crypto.createCipheriv(algo, securityKey, initVector)
   const type = typeof value
-  let str = ''
-  if (type === 'object') {
-    str = JSON.stringify(value)
-  } else if (type === 'number') {
-    str = value.toString()
-  } else {
-    str = value as string
+  const str = type === 'string' ? (value as string) : serializer.serialize(value)
+  if (isAuthenticated(algo)) {
+    const nonce = crypto.randomBytes(NONCE_LENGTH)
+    const cipher = crypto.createCipheriv(algo as crypto.CipherGCMTypes, securityKey, nonce, {
+      authTagLength: AUTH_TAG_LENGTH
+    })
+    const ciphertext = Buffer.concat([cipher.update(str, 'utf-8'), cipher.final()])
+    return {
+      encrypted: Buffer.concat([nonce, cipher.getAuthTag(), ciphertext]).toString('base64'),
+      type
+    }
   }
+  if (initVector == null) {
+    throw new Error(`${algo} requires an initVector`)
+  }
+  const cipher = crypto.createCipheriv(algo, securityKey, initVector)
   return {
     encrypted:
       cipher.update(str, 'utf-8', 'base64') + cipher.final('base64'),
@@ -86,27 +449,69 @@ export function encryptValue<V extends StandardType>(
 
 /**
  * Decrypts a value using the provided encryption configuration.
+ * For authenticated algorithms, throws if the value is truncated or fails
+ * authentication (tampered data or the wrong key).
  * @template V - The expected type of the decrypted value.
  * @param {string} value - The encrypted value.
  * @param {string} type - The original type of the value.
  * @param {EncryptionConfig} encryption - The encryption configuration.
+ * @param {Serializer} [serializer=defaultSerializer] - Restores non-string values.
  * @returns {V} The decrypted value.
  */
 export function decryptValue<V>(
   value: string,
   type: string,
-  encryption: EncryptionConfig
+  encryption: EncryptionConfig,
+  serializer: Serializer = defaultSerializer
 ): V {
   const { algo, securityKey, initVector } = encryption
-  const decipher = crypto.createDecipheriv(algo, securityKey, initVector)
-  const decrypted =
-    decipher.update(value, 'base64', 'utf-8') + decipher.final('utf-8')
-  if (type === 'number' || type === 'object') {
-    return JSON.parse(decrypted) as V
+  let decrypted: string
+  if (isAuthenticated(algo)) {
+    const data = Buffer.from(value, 'base64')
+    if (data.length < NONCE_LENGTH + AUTH_TAG_LENGTH) {
+      throw new Error('Failed to decrypt value: ciphertext is truncated')
+    }
+    const decipher = crypto.createDecipheriv(
+      algo as crypto.CipherGCMTypes,
+      securityKey,
+      data.subarray(0, NONCE_LENGTH),
+      { authTagLength: AUTH_TAG_LENGTH }
+    )
+    decipher.setAuthTag(data.subarray(NONCE_LENGTH, NONCE_LENGTH + AUTH_TAG_LENGTH))
+    const ciphertext = data.subarray(NONCE_LENGTH + AUTH_TAG_LENGTH)
+    try {
+      decrypted = Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf-8')
+    } catch (e) {
+      throw new Error('Failed to decrypt value: authentication failed, the value was tampered with or the key is wrong')
+    }
+  } else {
+    if (initVector == null) {
+      throw new Error(`${algo} requires an initVector`)
+    }
+    const decipher = crypto.createDecipheriv(algo, securityKey, initVector)
+    decrypted =
+      decipher.update(value, 'base64', 'utf-8') + decipher.final('utf-8')
+  }
+  if (type !== 'string') {
+    return serializer.deserialize(decrypted) as V
   }
   return decrypted as V
 }
 
+/**
+ * Splits a stored ciphertext into its key ID and the encrypted value.
+ * Ciphertexts are Base64, so the key ID ends at the last colon.
+ * @param {string} value - The key-tagged ciphertext.
+ * @returns {{ keyId: string | null; encrypted: string }} The key ID, or null if untagged, and the ciphertext.
+ */
+export function parseKeyId(value: string): { keyId: string | null; encrypted: string } {
+  const index = value.lastIndexOf(':')
+  if (index === -1) {
+    return { keyId: null, encrypted: value }
+  }
+  return { keyId: value.slice(0, index), encrypted: value.slice(index + 1) }
+}
+
 /**
  * Cache interface defining standard cache operations.
  * @template K - Type of the cache key.
@@ -115,369 +520,2131 @@ export function decryptValue<V>(
 export interface Cache<K, V extends StandardType> {
   has(key: K): boolean
   get(key: K): Promise<V | null>
-  set(key: K, value: V): Promise<void>
+  getOrLoad(key: K, loader?: Loader<K, V>, options?: SetOptions): Promise<V | null>
+  set(key: K, value: V, options?: SetOptions): Promise<void>
   unset(key: K): Promise<void>
   size: number
   allEntries(): Array<[K, V]>
-  stats(flush: boolean): { hits: number; misses: number; size: number }
+  stats(flush: boolean): CacheStats
 }
 
 /**
- * Internal doubly-linked list node used by the LRU cache.
+ * Internal cache entry, linked into the eviction policy's lists.
  * @template K - Type of the key.
  * @template V - Type of the value.
  */
-interface ListNode<K, V> {
-  key: K
+interface ListNode<K, V> extends PolicyNode<K> {
+  id: string | symbol // the serialized key the node is filed under
   storedValue: V | string // value after applying compression/encryption if enabled
-  prev: ListNode<K, V> | null
-  next: ListNode<K, V> | null
   timestamp: number // updated on access
+  ttl: number // time-to-live the entry was stored with, reused when it is refreshed
+  freshUntil: number | null // after this the entry is stale and gets refreshed on access
+  staleUntil: number | null // after this the entry has expired
+  bytes: number // size counted against maxBytes
+  tags: string[] | null // tags the entry was set with
+}
+
+/**
+ * Events emitted by SuperLRU and the arguments their listeners receive.
+ * @template K - Type of the cache key.
+ * @template V - Type of the cache value.
+ */
+export interface SuperLRUEvents<K, V> {
+  set: KVFunction<K, V> // a value was stored in memory by set, setMany or a loader
+  hit: KeyFunction<K> // a read found the key in memory
+  miss: KeyFunction<K> // a read did not find the key in memory
+  evict: EvictionFunction<K, V> // an entry left memory, or its value was overwritten
+  remoteHit: KeyFunction<K> // a read through to remote storage found the key
+  remoteMiss: KeyFunction<K> // a read through to remote storage did not find the key
+  remoteError: (error: Error) => void
+  refreshError: (key: K, error: Error) => void
+  reencryptError: (key: K, error: Error) => void
+  writeBehindError: (error: Error, remoteKeys: string[]) => void
+  invalidationError: (error: Error, remoteKeys: string[]) => void
+  breakerStateChange: (state: BreakerState, previous: BreakerState) => void
+  warmProgress: (loaded: number, scanned: number) => void // after each batch warm has processed
+  warmError: (error: Error, remoteKeys: string[]) => void // a batch or entry warm could not load
+}
+
+/**
+ * Typed overloads of the EventEmitter methods, merged into the class.
+ * @template K - Type of the cache key.
+ * @template V - Type of the cache value.
+ */
+export interface SuperLRU<K, V extends StandardType> {
+  on<E extends keyof SuperLRUEvents<K, V>>(event: E, listener: SuperLRUEvents<K, V>[E]): this
+  once<E extends keyof SuperLRUEvents<K, V>>(event: E, listener: SuperLRUEvents<K, V>[E]): this
+  off<E extends keyof SuperLRUEvents<K, V>>(event: E, listener: SuperLRUEvents<K, V>[E]): this
+  addListener<E extends keyof SuperLRUEvents<K, V>>(event: E, listener: SuperLRUEvents<K, V>[E]): this
+  removeListener<E extends keyof SuperLRUEvents<K, V>>(event: E, listener: SuperLRUEvents<K, V>[E]): this
+  emit<E extends keyof SuperLRUEvents<K, V>>(event: E, ...args: Parameters<SuperLRUEvents<K, V>[E]>): boolean
 }
 
 /**
- * A cache implementation using a single Map combined with a doubly-linked list
- * to maintain least-recently used (LRU) order.
- * Optionally supports write-through to Redis, compression, and encryption.
+ * A cache implementation using a single Map combined with an eviction policy
+ * that orders the entries, least-recently used (LRU) by default.
+ * Optionally supports write-through to Redis or another StorageAdapter, compression, and encryption.
+ * Emits the events described by SuperLRUEvents, such as `evict` (key, value, reason)
+ * and `refreshError` (key, error) when a stale-while-revalidate refresh fails.
  * @template K - Type of the cache key.
  * @template V - Type of the cache value.
  */
-export class SuperLRU<K, V extends StandardType> implements Cache<K, V> {
-  private cache: Map<K, ListNode<K, V>>
-  private head: ListNode<K, V> | null = null // most recently used node
-  private tail: ListNode<K, V> | null = null // least recently used node
+export class SuperLRU<K, V extends StandardType> extends EventEmitter implements Cache<K, V> {
+  private cache: Map<string | symbol, ListNode<K, V>> // by serialized key
+  private keySerializer?: KeySerializer // defaults differ in memory and remote storage, see _id and _remoteKey
+  private keyHash: KeyHashFunction
+  private policy: EvictionPolicy<K>
   private capacity: number
+  private maxBytes: number
+  private sizeCalculation?: SizeFunction<K, V>
   public size: number = 0
-  private counters = { hits: 0, misses: 0 }
-  private onEvicted?: KVFunction<K, V>
+  private bytes: number = 0
+  private totals: Counters = emptyCounters()
+  private baseline: Counters = emptyCounters() // totals when the statistics were last flushed
+  private latency = {
+    compression: new LatencyTracker(),
+    encryption: new LatencyTracker(),
+    remote: new LatencyTracker()
+  }
+  private trackHas: boolean
+  private loader?: Loader<K, V>
+  private inflight: Map<string | symbol, Promise<V | null>> = new Map() // by serialized key
+  private defaultTtl: number
+  private staleWhileRevalidate: number
   private writeThrough: boolean
   private compress: boolean
+  private codec: Codec
+  private codecs: Map<string, Codec>
+  private compressionThreshold: number
   private encrypt: boolean
-  private valueType: string | null = null
-  private encryption: EncryptionConfig
-  private redis?: RedisClientType
+  private serializer: Serializer
+  private algorithm: EncryptionAlgorithm
+  private initVector?: Buffer
+  private keyring: Map<string, Buffer>
+  private activeKeyId: string
+  private storage?: StorageAdapter
+  private ownsStorage: boolean = false // whether close() should close the storage too
+  private namespace?: string
+  private queue?: WriteBehindQueue
+  private failurePolicy: FailurePolicy
+  private breaker?: CircuitBreaker
+  private bus?: InvalidationBus
+  private subscribing?: AbortController // gives up the subscription while it is still being set up
+  private unsubscribe?: () => Promise<void>
+  // remote key to the in-memory keys sharing it, such as '1' and 1 by default, kept only with invalidation
+  private remoteIndex?: Map<string, Set<string | symbol>>
+  private tagIndex: Map<string, Set<string | symbol>> = new Map() // tag to the serialized keys carrying it
+  public readonly instanceId: string
 
   /**
    * Constructs a new SuperLRU cache instance.
    * @param {object} options - Configuration options.
    * @param {number} options.maxSize - Maximum number of items before eviction.
+   * @param {number} [options.maxBytes=0] - Maximum total size in bytes before eviction, 0 disables the limit.
+   * @param {EvictionPolicyName | EvictionPolicy<K>} [options.evictionPolicy='lru'] - Decides which entry is evicted, a built-in name or a custom policy.
+   * @param {SizeFunction<K, V>} [options.sizeCalculation] - Computes an entry's size, defaults to the byte length of the stored value.
    * @param {boolean} [options.compress=true] - Whether to compress stored values.
+   * @param {CodecName | Codec} [options.codec='gzip'] - Compression codec, a built-in name or a custom codec.
+   * @param {number} [options.compressionThreshold=0] - Values smaller than this many bytes are stored uncompressed.
+   * @param {Serializer} [options.serializer=defaultSerializer] - Turns values into strings for compression, encryption and Redis.
+   * @param {KeySerializer} [options.keySerializer] - Turns keys into the strings that identify them in memory and remote storage. By default memory uses canonicalKeySerializer and remote keys keep the form of earlier versions for strings and numbers.
+   * @param {KeyHashName | KeyHashFunction} [options.keyHash='md5'] - Hashes serialized keys into remote keys, a built-in name or a custom function.
    * @param {boolean} [options.encrypt=false] - Whether to encrypt stored values.
-   * @param {Buffer} [options.initVector=crypto.randomBytes(16)] - Initialization vector for encryption.
+   * @param {EncryptionAlgorithm} [options.algorithm='aes-256-gcm'] - Encryption algorithm.
+   * @param {Buffer} [options.initVector=crypto.randomBytes(16)] - Initialization vector of aes-256-cbc, also used to read values encrypted by earlier versions.
    * @param {Buffer} [options.securityKey=crypto.randomBytes(32)] - Security key for encryption.
-   * @param {KVFunction<K, V>} [options.onEvicted] - Callback function invoked on eviction.
-   * @param {boolean} [options.writeThrough=false] - Whether to use write-through caching with Redis.
-   * @param {object} [options.redisConfig] - Redis configuration options.
-   * @param {string} options.redisConfig.user - Redis username.
+   * @param {Keyring} [options.keyring] - Encryption keys by ID and the active key ID, replaces securityKey.
+   * @param {number} [options.defaultTtl=0] - Time-to-live in milliseconds for new entries, 0 disables expiry.
+   * @param {number} [options.staleWhileRevalidate=0] - Grace period in milliseconds during which an expired entry is still served while the loader refreshes it.
+   * @param {EvictionFunction<K, V>} [options.onEvicted] - Listens to `evict` events, except for overwritten values.
+   * @param {Loader<K, V>} [options.loader] - Default loader used by getOrLoad on a miss.
+   * @param {boolean} [options.trackHas=true] - Whether has() counts towards the hit and miss statistics.
+   * @param {boolean | StorageAdapter} [options.writeThrough=false] - Whether to use write-through caching with Redis, or the StorageAdapter to write through to.
+   * @param {boolean | WriteBehindOptions} [options.writeBehind=false] - Queue remote writes and flush them in batches instead of waiting for them in set and unset.
+   * @param {FailurePolicy} [options.failurePolicy='throw'] - Whether remote storage errors fail the operation, or are reported through the `remoteError` event while the cache carries on memory-only.
+   * @param {boolean | CircuitBreakerOptions} [options.circuitBreaker=false] - Stop calling remote storage after repeated failures and probe it again after a cooldown.
+   * @param {boolean | InvalidationBus} [options.invalidation=false] - Tell other instances to drop keys this one changes, true to use Redis pub/sub on the write-through client.
+   * @param {string} [options.instanceId=crypto.randomUUID()] - Identifies this instance's own invalidation messages.
+   * @param {string} [options.namespace] - Prefixes remote keys as `superlru:{namespace}:{hash}` so caches can share remote storage.
+   * @param {RedisConfig} [options.redisConfig] - Redis configuration options.
+   * @param {RedisClientType} [options.redisConfig.client] - An existing client, used instead of connecting.
+   * @param {string} [options.redisConfig.url] - Redis URL, used instead of user, pass, host and port.
+   * @param {string} [options.redisConfig.user] - Redis username.
    * @param {string} [options.redisConfig.pass] - Redis password.
-   * @param {string} options.redisConfig.host - Redis host.
+   * @param {string} [options.redisConfig.host] - Redis host.
+   * @param {number} [options.redisConfig.port] - Redis port.
+   * @param {number} [options.redisConfig.db] - Database index.
+   * @param {boolean | ConnectionOptions} [options.redisConfig.tls] - Connect over TLS, optionally with TLS options.
+   * @param {number} [options.redisConfig.connectTimeout] - Milliseconds to wait for the connection to open.
+   * @param {ReconnectStrategy} [options.redisConfig.reconnectStrategy] - When to reconnect after losing the connection.
    */
   constructor({
     maxSize,
+    maxBytes = 0,
+    evictionPolicy = 'lru',
+    sizeCalculation,
     compress = true,
+    codec = 'gzip',
+    compressionThreshold = 0,
+    serializer = defaultSerializer,
+    keySerializer,
+    keyHash = 'md5',
     encrypt = false,
+    algorithm = 'aes-256-gcm',
     initVector = crypto.randomBytes(16),
     securityKey = crypto.randomBytes(32),
+    keyring,
+    defaultTtl = 0,
+    staleWhileRevalidate = 0,
     onEvicted,
+    loader,
+    trackHas = true,
     writeThrough = false,
+    writeBehind = false,
+    failurePolicy = 'throw',
+    circuitBreaker = false,
+    invalidation = false,
+    instanceId = crypto.randomUUID(),
+    namespace,
     redisConfig
   }: {
     maxSize: number
+    maxBytes?: number
+    evictionPolicy?: EvictionPolicyName | EvictionPolicy<K>
+    sizeCalculation?: SizeFunction<K, V>
     compress?: boolean
+    codec?: CodecName | Codec
+    compressionThreshold?: number
+    serializer?: Serializer
+    keySerializer?: KeySerializer
+    keyHash?: KeyHashName | KeyHashFunction
     encrypt?: boolean
+    algorithm?: EncryptionAlgorithm
     initVector?: Buffer
     securityKey?: Buffer
-    onEvicted?: KVFunction<K, V>
-    writeThrough?: boolean
-    redisConfig?: {
-      user: string
-      pass?: string
-      host: string
-    }
+    keyring?: Keyring
+    defaultTtl?: number
+    staleWhileRevalidate?: number
+    onEvicted?: EvictionFunction<K, V>
+    loader?: Loader<K, V>
+    trackHas?: boolean
+    writeThrough?: boolean | StorageAdapter
+    writeBehind?: boolean | WriteBehindOptions
+    failurePolicy?: FailurePolicy
+    circuitBreaker?: boolean | CircuitBreakerOptions
+    invalidation?: boolean | InvalidationBus
+    instanceId?: string
+    namespace?: string
+    redisConfig?: RedisConfig
   }) {
-    if (redisConfig != null) {
-      if (redisConfig.pass == null) {
-        redisConfig.pass = ''
-      }
-      const url = `redis://${redisConfig.user}:${redisConfig.pass}@${redisConfig.host}`
-      this.redis = createClient({ url })
-      // Connect to Redis.
-      this.redis.connect().catch(console.error)
+    super()
+    if (typeof writeThrough === 'object') {
+      this.storage = writeThrough
+    } else if (redisConfig != null) {
+      this.storage = RedisAdapter.fromConfig(redisConfig, (error) => this.emit('remoteError', error))
+      this.ownsStorage = redisConfig.client == null
     }
-    if (writeThrough && redisConfig == null) {
+    if (writeThrough === true && redisConfig == null) {
       throw new Error('writeThrough requires redisConfig to be defined')
     }
+    if (writeBehind !== false && writeThrough === false) {
+      throw new Error('writeBehind requires writeThrough to be enabled')
+    }
+    if (staleWhileRevalidate > 0 && loader == null) {
+      throw new Error('staleWhileRevalidate requires a loader to be defined')
+    }
 
     this.cache = new Map()
+    this.keySerializer = keySerializer
+    this.keyHash = typeof keyHash === 'string' ? keyHashes[keyHash] : keyHash
+    if (this.keyHash == null) {
+      throw new Error(`unknown key hash "${keyHash}"`)
+    }
     this.capacity = maxSize
-    this.onEvicted = onEvicted
-    this.writeThrough = writeThrough
+    this.maxBytes = maxBytes
+    this.policy = typeof evictionPolicy === 'string' ? policies[evictionPolicy]?.(maxSize) : evictionPolicy
+    if (this.policy == null) {
+      throw new Error(`unknown eviction policy "${evictionPolicy}"`)
+    }
+    this.sizeCalculation = sizeCalculation
+    if (onEvicted) {
+      // kept for compatibility: onEvicted only ever saw entries leaving the cache
+      this.on('evict', (key, value, reason) => {
+        if (reason !== 'overwritten') onEvicted(key, value, reason)
+      })
+    }
+    this.loader = loader
+    this.trackHas = trackHas
+    this.defaultTtl = defaultTtl
+    this.staleWhileRevalidate = staleWhileRevalidate
+    this.writeThrough = writeThrough !== false
+    this.namespace = namespace
+    this.failurePolicy = failurePolicy
+    if (circuitBreaker !== false) {
+      this.breaker = new CircuitBreaker(circuitBreaker === true ? {} : circuitBreaker, (state, previous) =>
+        this.emit('breakerStateChange', state, previous)
+      )
+    }
+    if (writeBehind !== false && this.storage) {
+      this.queue = new WriteBehindQueue(
+        this.storage,
+        writeBehind === true ? {} : writeBehind,
+        {
+          onDrop: (error, keys) => this.emit('writeBehindError', error, keys),
+          onFlush: (keys) => this._publish(keys),
+          guard: this.breaker
+            ? (operation) => this.breaker!.run(() => this._measure(operation))
+            : (operation) => this._measure(operation),
+          held: this.breaker ? () => this.breaker!.blocked() : undefined
+        }
+      )
+    }
+    this.instanceId = instanceId
+    if (invalidation === true) {
+      if (!(this.storage instanceof RedisAdapter)) {
+        throw new Error('invalidation requires Redis write-through storage, or pass an InvalidationBus')
+      }
+      this.bus = new RedisInvalidationBus(this.storage.client)
+    } else if (invalidation !== false) {
+      this.bus = invalidation
+    }
+    if (this.bus) {
+      this.remoteIndex = new Map()
+      const subscribing = new AbortController()
+      this.subscribing = subscribing
+      this.bus
+        .subscribe(
+          (message) => this._invalidate(message),
+          (error) => this.emit('invalidationError', error, []),
+          subscribing.signal
+        )
+        .then(
+          (unsubscribe) => {
+            if (subscribing.signal.aborted) {
+              // closed while the subscription was being set up
+              unsubscribe().catch(() => undefined)
+            } else {
+              this.unsubscribe = unsubscribe
+            }
+          },
+          (error) => {
+            if (!subscribing.signal.aborted) {
+              this.emit('invalidationError', error, [])
+            }
+          }
+        )
+    }
     this.compress = compress
+    this.codec = typeof codec === 'string' ? codecs[codec] : codec
+    if (this.codec == null) {
+      throw new Error(`unknown compression codec "${codec}"`)
+    }
+    if (this.codec.name.includes(':')) {
+      throw new Error('codec names must not contain a colon')
+    }
+    this.codecs = new Map(Object.values(codecs).map((c): [string, Codec] => [c.name, c]))
+    this.codecs.set(this.codec.name, this.codec)
+    this.compressionThreshold = compressionThreshold
+    this.serializer = serializer
     this.encrypt = encrypt
-    if (encrypt) {
-      this.encryption = {
-        algo: 'aes-256-cbc',
-        initVector,
-        securityKey
+    this.algorithm = algorithm
+    this.initVector = initVector
+    if (keyring != null) {
+      this.keyring = new Map(Object.entries(keyring.keys))
+      this.activeKeyId = keyring.activeKeyId
+      if (!this.keyring.has(this.activeKeyId)) {
+        throw new Error(`keyring has no key with id "${this.activeKeyId}"`)
       }
     } else {
-      this.encryption = {
-        algo: 'aes-256-cbc',
-        initVector: Buffer.alloc(16, 0),
-        securityKey: Buffer.alloc(32, 0)
-      }
+      this.keyring = new Map([['default', encrypt ? securityKey : Buffer.alloc(32, 0)]])
+      this.activeKeyId = 'default'
     }
   }
 
   /**
-   * Adds a node to the head of the doubly-linked list.
+   * Drops an already unlinked node from the map and emits `evict`.
    * @private
-   * @param {ListNode<K, V>} node - The node to add.
+   * @param {ListNode<K, V>} node - The node to drop.
+   * @param {EvictionReason} reason - Why the node is leaving the cache.
    */
-  private _addNode(node: ListNode<K, V>) {
-    node.prev = null
-    node.next = this.head
-    if (this.head) {
-      this.head.prev = node
+  private _discard(node: ListNode<K, V>, reason: EvictionReason) {
+    this.cache.delete(node.id)
+    if (this.remoteIndex) {
+      const remoteKey = this._remoteKey(node.key)
+      const ids = this.remoteIndex.get(remoteKey)
+      ids?.delete(node.id)
+      if (ids?.size === 0) {
+        this.remoteIndex.delete(remoteKey)
+      }
     }
-    this.head = node
-    if (!this.tail) {
-      this.tail = node
+    this._untag(node)
+    this.size--
+    this.bytes -= node.bytes
+    this.totals.evictions[reason]++
+    if (this.listenerCount('evict') > 0) {
+      this.emit('evict', node.key, this.valueOut(node.storedValue) as V, reason)
     }
   }
 
   /**
-   * Removes a node from the doubly-linked list.
+   * Looks up the node for a key, dropping it first if its time-to-live has elapsed.
    * @private
-   * @param {ListNode<K, V>} node - The node to remove.
+   * @param {K} key - The key to look up.
+   * @returns {ListNode<K, V> | undefined} The live node, or undefined if missing or expired.
    */
-  private _removeNode(node: ListNode<K, V>) {
-    if (node.prev) {
-      node.prev.next = node.next
-    } else {
-      this.head = node.next
-    }
-    if (node.next) {
-      node.next.prev = node.prev
-    } else {
-      this.tail = node.prev
+  private _getNode(key: K): ListNode<K, V> | undefined {
+    const node = this.cache.get(this._id(key))
+    if (node && this._isExpired(node)) {
+      this.policy.remove(node)
+      this._discard(node, 'expired')
+      return undefined
     }
-    node.prev = null
-    node.next = null
+    return node
   }
 
   /**
-   * Moves a node to the head of the list (marking it as most recently used).
+   * Checks whether a node has expired, including any stale grace period.
    * @private
-   * @param {ListNode<K, V>} node - The node to move.
+   * @param {ListNode<K, V>} node - The node to check.
+   * @param {number} [now=Date.now()] - The current time in ms.
+   * @returns {boolean} True if the node has expired.
    */
-  private _moveToHead(node: ListNode<K, V>) {
-    this._removeNode(node)
-    this._addNode(node)
-    node.timestamp = Date.now()
+  private _isExpired(node: ListNode<K, V>, now: number = Date.now()): boolean {
+    return node.staleUntil != null && node.staleUntil <= now
   }
 
   /**
-   * Removes and returns the tail node (least recently used).
+   * Checks whether a node is past its freshness deadline.
    * @private
-   * @returns {ListNode<K, V> | null} The removed tail node, or null if the list is empty.
+   * @param {ListNode<K, V>} node - The node to check.
+   * @param {number} [now=Date.now()] - The current time in ms.
+   * @returns {boolean} True if the node is stale.
    */
-  private _popTail(): ListNode<K, V> | null {
-    if (!this.tail) return null
-    const tailNode = this.tail
-    this._removeNode(tailNode)
-    return tailNode
+  private _isStale(node: ListNode<K, V>, now: number = Date.now()): boolean {
+    return node.freshUntil != null && node.freshUntil <= now
   }
 
   /**
-   * Checks if the cache contains the specified key.
-   * @param {K} key - The key to check.
-   * @returns {boolean} True if the key exists, false otherwise.
+   * Computes the deadlines for an entry stored now with the given time-to-live.
+   * @private
+   * @param {number} ttl - Time-to-live in milliseconds, 0 for none.
+   * @returns {Lifetime} The entry's lifetime.
    */
-  public has(key: K): boolean {
-    const exists = this.cache.has(key)
-    if (exists) {
-      this.counters.hits++
-    } else {
-      this.counters.misses++
+  private _lifetime(ttl: number): Lifetime {
+    if (ttl <= 0) {
+      return { ttl, freshUntil: null, staleUntil: null }
     }
-    return exists
+    const freshUntil = Date.now() + ttl
+    return { ttl, freshUntil, staleUntil: freshUntil + this.staleWhileRevalidate }
   }
 
   /**
-   * Retrieves a value from the cache.
-   * If not found and write-through is enabled, attempts to load from Redis.
-   * @param {K} key - The key to retrieve.
-   * @returns {Promise<V | null>} A promise resolving to the value or null if not found.
+   * Computes the size of an entry, using sizeCalculation if provided or the
+   * byte length of the stored value otherwise.
+   * @private
+   * @param {K} key - The entry's key.
+   * @param {V} value - The original value.
+   * @param {V | string} storedValue - The value after compression/encryption.
+   * @returns {number} The size of the entry in bytes.
    */
-  public async get(key: K): Promise<V | null> {
-    const node = this.cache.get(key)
-    if (node) {
-      this.counters.hits++
-      this._moveToHead(node)
-      return this.valueOut(node.storedValue)
-    }
-    this.counters.misses++
-    if (this.writeThrough && this.redis) {
-      const redisKey = md5(key as StandardType)
-      const fromRedis = await this.redis.get(redisKey)
-      if (fromRedis != null) {
-        const value = this.valueOut(fromRedis) as V
-        await this.set(key, value)
-        return value
+  private _sizeOf(key: K, value: V, storedValue: V | string): number {
+    if (this.sizeCalculation) {
+      const size = this.sizeCalculation(key, value)
+      if (!Number.isFinite(size) || size < 0) {
+        throw new Error('sizeCalculation must return a non-negative number')
       }
+      return size
     }
-    return null
+    const str = typeof storedValue === 'string' ? storedValue : this.serializer.serialize(storedValue)
+    return Buffer.byteLength(str)
   }
 
   /**
-   * Sets a key-value pair in the cache.
-   * Updates the node if the key exists or adds a new node otherwise.
-   * Evicts the least recently used item if capacity is exceeded.
-   * @param {K} key - The key to set.
-   * @param {V} value - The value to store.
-   * @returns {Promise<void>} A promise that resolves when the operation completes.
+   * Checks whether an entry of the given size can ever fit within maxBytes.
+   * @private
+   * @param {number} bytes - The size of the entry.
+   * @returns {boolean} True if the entry fits.
+   */
+  private _fits(bytes: number): boolean {
+    return this.maxBytes <= 0 || bytes <= this.maxBytes
+  }
+
+  /**
+   * Inserts or updates the in-memory entry for a key, then evicts the eviction
+   * policy's victims until both maxSize and maxBytes are satisfied.
+   * @private
+   * @param {K} key - The key to store.
+   * @param {V | string} storedValue - The value after compression/encryption.
+   * @param {Lifetime} lifetime - The entry's time-to-live and deadlines.
+   * @param {number} bytes - The size of the entry.
+   * @param {string[] | null} tags - The entry's tags, replacing those of an existing entry.
    */
-  public async set(key: K, value: V): Promise<void> {
-    const processed = (this.compress || this.encrypt)
-      ? this.valueIn(value)
-      : value
-    let node = this.cache.get(key)
+  private _store(
+    key: K,
+    storedValue: V | string,
+    { ttl, freshUntil, staleUntil }: Lifetime,
+    bytes: number,
+    tags: string[] | null
+  ) {
+    const id = this._id(key)
+    let node = this.cache.get(id)
     if (node) {
-      node.storedValue = processed
+      const previous = node.storedValue
+      this.bytes += bytes - node.bytes
+      node.storedValue = storedValue
+      node.ttl = ttl
+      node.freshUntil = freshUntil
+      node.staleUntil = staleUntil
+      node.bytes = bytes
       node.timestamp = Date.now()
-      this._moveToHead(node)
+      this._untag(node)
+      node.tags = tags
+      this._tag(node)
+      this.policy.update(node)
+      this.totals.evictions.overwritten++
+      if (this.listenerCount('evict') > 0) {
+        this.emit('evict', key, this.valueOut(previous) as V, 'overwritten')
+      }
     } else {
       const newNode: ListNode<K, V> = {
         key,
-        storedValue: processed,
+        id,
+        storedValue,
         prev: null,
         next: null,
-        timestamp: Date.now()
+        list: null,
+        timestamp: Date.now(),
+        ttl,
+        freshUntil,
+        staleUntil,
+        bytes,
+        tags
       }
-      this.cache.set(key, newNode)
-      this._addNode(newNode)
-      this.size++
-      if (this.size > this.capacity) {
-        const tailNode = this._popTail()
-        if (tailNode) {
-          this.cache.delete(tailNode.key)
-          this.size--
-          if (this.onEvicted) {
-            const evictedValue = this.valueOut(tailNode.storedValue)
-            this.onEvicted(tailNode.key, evictedValue as V)
-          }
-        }
+      if (this.remoteIndex) {
+        const remoteKey = this._remoteKey(key)
+        const ids = this.remoteIndex.get(remoteKey) ?? new Set()
+        ids.add(id)
+        this.remoteIndex.set(remoteKey, ids)
       }
+      this.cache.set(id, newNode)
+      this._tag(newNode)
+      this.policy.add(newNode)
+      this.size++
+      this.bytes += bytes
     }
-    if (this.writeThrough && this.redis) {
-      const hash = md5(key as StandardType)
-      let storeValue: string =
-        typeof processed === 'string'
-          ? processed
-          : JSON.stringify(processed)
-      await this.redis.set(hash, storeValue)
+    while (this.size > this.capacity || (this.maxBytes > 0 && this.bytes > this.maxBytes)) {
+      const victim = this.policy.victim() as ListNode<K, V> | null
+      if (!victim) break
+      this.policy.remove(victim)
+      this._discard(victim, 'capacity')
     }
   }
 
   /**
-   * Removes a key and its value from the cache.
-   * Also removes the key from Redis if write-through is enabled.
-   * @param {K} key - The key to remove.
-   * @returns {Promise<void>} A promise that resolves when the operation completes.
+   * Adds a node to the index of each of its tags.
+   * @private
+   * @param {ListNode<K, V>} node - The node.
    */
-  public async unset(key: K): Promise<void> {
-    const node = this.cache.get(key)
-    if (node) {
-      this._removeNode(node)
-      this.cache.delete(key)
-      this.size--
-      if (this.onEvicted) {
-        const value = this.valueOut(node.storedValue)
-        this.onEvicted(key, value as V)
+  private _tag(node: ListNode<K, V>) {
+    if (!node.tags) return
+    for (const tag of node.tags) {
+      let ids = this.tagIndex.get(tag)
+      if (!ids) {
+        ids = new Set()
+        this.tagIndex.set(tag, ids)
       }
-    }
-    if (this.writeThrough && this.redis) {
-      await this.redis.del(md5(key as StandardType))
+      ids.add(node.id)
     }
   }
 
   /**
-   * Retrieves all entries in the cache.
-   * @returns {Array<[K, V]>} An array of key-value pairs.
+   * Removes a node from the index of each of its tags, dropping tags no
+   * other entry carries.
+   * @private
+   * @param {ListNode<K, V>} node - The node.
    */
-  public allEntries(): [K, V][] {
-    const entries: [K, V][] = []
-    for (const node of this.cache.values()) {
-      const value =
-        this.compress || this.encrypt
-          ? (this.valueOut(node.storedValue) as V)
-          : (node.storedValue as V)
-      entries.push([node.key, value])
+  private _untag(node: ListNode<K, V>) {
+    if (!node.tags) return
+    for (const tag of node.tags) {
+      const ids = this.tagIndex.get(tag)
+      if (!ids) continue
+      ids.delete(node.id)
+      if (ids.size === 0) {
+        this.tagIndex.delete(tag)
+      }
     }
-    return entries
   }
 
   /**
-   * Returns and resets the cache statistics.
-   * @returns {{ hits: number; misses: number; size: number }} An object containing hit and miss counts and current cache size.
+   * Shares one pending fetch between concurrent callers for the same key.
+   * The fetch is forgotten once it settles, whether it resolves or rejects.
+   * @private
+   * @param {K} key - The key being fetched.
+   * @param {() => Promise<V | null>} fetch - Starts the fetch if none is pending.
+   * @returns {Promise<V | null>} The pending fetch for the key.
+   */
+  private _coalesce(key: K, fetch: () => Promise<V | null>): Promise<V | null> {
+    const id = this._id(key)
+    const pending = this.inflight.get(id)
+    if (pending) return pending
+    const promise = fetch().finally(() => {
+      if (this.inflight.get(id) === promise) {
+        this.inflight.delete(id)
+      }
+    })
+    this.inflight.set(id, promise)
+    return promise
+  }
+
+  /**
+   * Loads a value from remote storage into memory, keeping the remote key's expiry.
+   * @private
+   * @param {K} key - The key to load.
+   * @returns {Promise<V | null>} The value, or null if remote storage does not have it.
    */
-  public stats(flush: boolean = false) {
-    const stats = {
-      hits: this.counters.hits,
-      misses: this.counters.misses,
-      size: this.size
+  private async _readThrough(key: K): Promise<V | null> {
+    if (!this.storage) return null
+    const storage = this.storage
+    const remoteKey = this._remoteKey(key)
+    let record: RemoteRecord | null | undefined = this._fromQueue(remoteKey)
+    if (record === undefined) {
+      record = await this._remote(async () => {
+        const text = await storage.get(remoteKey)
+        return { text, remaining: text == null ? null : await storage.ttl(remoteKey) }
+      }, null)
     }
-    if (flush) {
-      this.counters = { hits: 0, misses: 0 }
+    // a null record means remote storage failed, which is reported as remoteError
+    if (record == null) return null
+    if (record.text == null) {
+      this.totals.remote.misses++
+      this.emit('remoteMiss', key)
+      return null
     }
-    return stats
+    this.totals.remote.hits++
+    this.emit('remoteHit', key)
+    return this._fill(key, remoteKey, record.text, record.remaining)
   }
 
   /**
-   * Processes the input value by applying encryption and/or compression.
+   * Loads several values from remote storage into memory with a single bulk
+   * read, keeping each remote key's expiry.
    * @private
-   * @param {V} value - The value to process.
-   * @returns {string | V} The processed value.
+   * @param {K[]} keys - The keys to load, without duplicates.
+   * @returns {Promise<Map<K, V>>} The values remote storage has, by key.
    */
-  private valueIn(value: V): string | V {
-    let data: StandardType = value
-    if (this.encrypt) {
-      const { encrypted, type } = encryptValue(value, this.encryption)
-      data = encrypted
-      if (this.valueType == null) {
-        this.valueType = type
-      }
-      if (!this.compress) {
-        return data as string
-      }
-    } else {
-      if (this.valueType == null) {
-        this.valueType = typeof value
+  private async _readThroughMany(keys: K[]): Promise<Map<K, V>> {
+    const found = new Map<K, V>()
+    if (!this.storage) return found
+    const storage = this.storage
+    const remoteKeys = keys.map((key) => this._remoteKey(key))
+    const records = remoteKeys.map((remoteKey) => this._fromQueue(remoteKey))
+    const unqueued = remoteKeys.filter((_, i) => records[i] === undefined)
+    if (unqueued.length > 0) {
+      const fetched = await this._remote(() => this._fetchMany(storage, unqueued), [])
+      let next = 0
+      for (let i = 0; i < records.length; i++) {
+        if (records[i] === undefined) records[i] = fetched[next++]
       }
     }
-    if (this.compress) {
-      return compressValue(data) as string
+    for (let i = 0; i < keys.length; i++) {
+      const record = records[i]
+      if (!record) continue
+      if (record.text == null) {
+        this.totals.remote.misses++
+        this.emit('remoteMiss', keys[i])
+        continue
+      }
+      this.totals.remote.hits++
+      this.emit('remoteHit', keys[i])
+      found.set(keys[i], await this._fill(keys[i], remoteKeys[i], record.text, record.remaining))
     }
-    return data as V
+    return found
   }
 
   /**
-   * Processes the stored value by applying decompression and/or decryption.
+   * Reads several remote keys with a single bulk read, and the remaining
+   * time-to-live of those that exist.
    * @private
-   * @param {string | V | null} value - The stored value to process.
-   * @returns {V | null} The original value.
+   * @param {StorageAdapter} storage - The remote storage.
+   * @param {string[]} remoteKeys - The remote keys.
+   * @returns {Promise<RemoteRecord[]>} The records, in the order of the keys.
    */
-  private valueOut(value: string | V | null): V | null {
-    if (value == null) return null
-    let data: StandardType = value
-    if (this.compress && typeof value === 'string') {
-      data = JSON.parse(decompressValue(value))
+  private async _fetchMany(storage: StorageAdapter, remoteKeys: string[]): Promise<RemoteRecord[]> {
+    const texts = await storage.getMany(remoteKeys)
+    // issued together, so the client pipelines the TTL lookups
+    const remaining = await Promise.all(texts.map((text, i) => (text == null ? null : storage.ttl(remoteKeys[i]))))
+    return texts.map((text, i): RemoteRecord => ({ text, remaining: remaining[i] }))
+  }
+
+  /**
+   * Returns the queued write-behind operation for a remote key as a remote
+   * record, since a write that has not been flushed yet is newer than the
+   * remote value.
+   * @private
+   * @param {string} remoteKey - The remote key.
+   * @returns {RemoteRecord | undefined} The record, or undefined if nothing is queued for the key.
+   */
+  private _fromQueue(remoteKey: string): RemoteRecord | undefined {
+    const queued = this.queue?.peek(remoteKey)
+    if (!queued) return undefined
+    const remaining = queued.expires > 0 ? queued.expires - Date.now() : null
+    if (remaining != null && remaining <= 0) return { text: null, remaining: null }
+    return { text: queued.value, remaining }
+  }
+
+  /**
+   * Stores a value read from remote storage in memory on the remote key's
+   * expiry, re-encrypting it first if it was written under a rotated-out key.
+   * @private
+   * @param {K} key - The cache key.
+   * @param {string} remoteKey - The remote key.
+   * @param {string} fromRemote - The remote value.
+   * @param {number | null} remaining - The remote key's remaining time-to-live in milliseconds, null for no expiry.
+   * @returns {Promise<V>} The value.
+   */
+  private async _fill(key: K, remoteKey: string, fromRemote: string, remaining: number | null): Promise<V> {
+    const remote = this._fromRemote(fromRemote)
+    const { value, tags } = remote
+    let stored = remote.stored
+    // keep the in-memory copy on the same expiry as the remote key
+    const staleUntil = remaining != null && remaining > 0 ? Date.now() + remaining : null
+    const lifetime: Lifetime = {
+      ttl: this.defaultTtl,
+      freshUntil: staleUntil == null ? null : staleUntil - this.staleWhileRevalidate,
+      staleUntil
+    }
+    if (this.encrypt && parseKeyId(this._unwrap(fromRemote).v).keyId !== this.activeKeyId) {
+      // written under a rotated-out key: re-encrypt it with the active key
+      stored = this.valueIn(value)
+      const replacement = this._toRemote(key, stored, tags)
+      await this._remote(() => this._replaceRemote(remoteKey, replacement), undefined)
+    }
+    const bytes = this._sizeOf(key, value, stored)
+    if (this._fits(bytes)) {
+      this._store(key, stored, lifetime, bytes, tags)
+    }
+    return value
+  }
+
+  /**
+   * Serves a cached node, starting a background refresh if it is stale.
+   * @private
+   * @param {ListNode<K, V>} node - The node being read.
+   * @param {Loader<K, V>} [loader] - Loader used to refresh a stale node.
+   * @returns {V | null} The node's value.
+   */
+  private _hit(node: ListNode<K, V>, loader?: Loader<K, V>): V | null {
+    this.totals.hits++
+    this.emit('hit', node.key)
+    node.timestamp = Date.now()
+    this.policy.touch(node)
+    if (loader && this._isStale(node)) {
+      this._revalidate(node.key, node.ttl, node.tags, loader)
+    }
+    return this.valueOut(node.storedValue)
+  }
+
+  /**
+   * Refreshes a stale entry in the background. The stale value keeps being
+   * served until the refresh succeeds or the entry expires; failures are
+   * reported through the `refreshError` event.
+   * @private
+   * @param {K} key - The key to refresh.
+   * @param {number} ttl - Time-to-live for the refreshed value.
+   * @param {string[] | null} tags - Tags for the refreshed value, those of the stale entry.
+   * @param {Loader<K, V>} loader - Loads the fresh value.
+   */
+  private _revalidate(key: K, ttl: number, tags: string[] | null, loader: Loader<K, V>) {
+    if (this.inflight.has(this._id(key))) return
+    this._coalesce(key, async () => {
+      const value = await loader(key)
+      if (value == null) return null
+      await this.set(key, value, { ttl, tags: tags ?? undefined })
+      return value
+    }).catch((error) => {
+      this.emit('refreshError', key, error)
+    })
+  }
+
+  /**
+   * Checks if the cache contains the specified key.
+   * @param {K} key - The key to check.
+   * @returns {boolean} True if the key exists, false otherwise.
+   */
+  public has(key: K): boolean {
+    const exists = this._getNode(key) != null
+    if (exists) {
+      if (this.trackHas) this.totals.hits++
+      this.emit('hit', key)
+    } else {
+      if (this.trackHas) this.totals.misses++
+      this.emit('miss', key)
+    }
+    return exists
+  }
+
+  /**
+   * Reads a value from memory without disturbing the cache: the entry is not
+   * moved to the head, the hit and miss counters are not touched, stale
+   * entries are not refreshed and remote storage is not consulted.
+   * @param {K} key - The key to read.
+   * @returns {V | null} The value, or null if the key is not in memory or has expired.
+   */
+  public peek(key: K): V | null {
+    const node = this.cache.get(this._id(key))
+    if (!node || this._isExpired(node)) return null
+    return this.valueOut(node.storedValue) as V
+  }
+
+  /**
+   * Retrieves a value from the cache.
+   * Expired entries are dropped and count as misses.
+   * Stale entries are served while the loader refreshes them in the background.
+   * If not found and write-through is enabled, attempts to load from remote storage,
+   * sharing the lookup with any pending getOrLoad for the same key.
+   * @param {K} key - The key to retrieve.
+   * @returns {Promise<V | null>} A promise resolving to the value or null if not found.
+   */
+  public async get(key: K): Promise<V | null> {
+    const node = this._getNode(key)
+    if (node) {
+      return this._hit(node, this.loader)
+    }
+    this.totals.misses++
+    this.emit('miss', key)
+    if (this.writeThrough && this.storage) {
+      return this._coalesce(key, () => this._readThrough(key))
+    }
+    return null
+  }
+
+  /**
+   * Retrieves a value from the cache, loading and storing it on a miss.
+   * Concurrent calls for the same key share a single load; a loader rejection
+   * reaches every caller and nothing is cached.
+   * @param {K} key - The key to retrieve.
+   * @param {Loader<K, V>} [loader=options.loader] - Loads the value on a miss.
+   * @param {SetOptions} [options] - Options used when storing the loaded value.
+   * @returns {Promise<V | null>} A promise resolving to the value, or null if the loader returned none.
+   */
+  public async getOrLoad(key: K, loader = this.loader, options?: SetOptions): Promise<V | null> {
+    if (!loader) {
+      throw new Error('getOrLoad requires a loader')
+    }
+    const node = this._getNode(key)
+    if (node) {
+      return this._hit(node, loader)
+    }
+    this.totals.misses++
+    this.emit('miss', key)
+    // a pending remote-only lookup from get() may come back empty
+    const pending = this.inflight.get(this._id(key))
+    if (pending) {
+      const value = await pending
+      if (value != null) return value
+    }
+    return this._coalesce(key, async () => {
+      if (this.writeThrough && this.storage) {
+        const fromRemote = await this._readThrough(key)
+        if (fromRemote != null) return fromRemote
+      }
+      const value = await loader(key)
+      if (value == null) return null
+      await this.set(key, value, options)
+      return value
+    })
+  }
+
+  /**
+   * Retrieves several values at once. Keys found in memory are served from
+   * it; the rest are read from remote storage with a single bulk read when
+   * write-through is enabled, joining any pending lookups for the same keys.
+   * @param {K[]} keys - The keys to retrieve.
+   * @returns {Promise<Array<V | null>>} The values in the order of the keys, null for keys not found.
+   */
+  public async getMany(keys: K[]): Promise<Array<V | null>> {
+    const values: Array<V | null> = new Array(keys.length).fill(null)
+    const missed = new Map<K, number[]>()
+    for (let i = 0; i < keys.length; i++) {
+      const node = this._getNode(keys[i])
+      if (node) {
+        values[i] = this._hit(node, this.loader)
+        continue
+      }
+      this.totals.misses++
+      this.emit('miss', keys[i])
+      const positions = missed.get(keys[i])
+      if (positions) {
+        positions.push(i)
+      } else {
+        missed.set(keys[i], [i])
+      }
+    }
+    if (missed.size === 0 || !this.writeThrough || !this.storage) {
+      return values
+    }
+    const fetching = Array.from(missed.keys()).filter((key) => !this.inflight.has(this._id(key)))
+    const batch = fetching.length > 0 ? this._readThroughMany(fetching) : null
+    const found = await Promise.all(
+      Array.from(missed.keys(), (key) => this._coalesce(key, async () => (await batch!).get(key) ?? null))
+    )
+    Array.from(missed.values()).forEach((positions, i) => {
+      for (const position of positions) {
+        values[position] = found[i]
+      }
+    })
+    return values
+  }
+
+  /**
+   * Sets a key-value pair in the cache.
+   * Updates the node if the key exists or adds a new node otherwise.
+   * Evicts entries chosen by the eviction policy until maxSize and maxBytes are satisfied.
+   * Rejects values larger than maxBytes on their own, removing the key's
+   * previous value as well, as lru-cache does, so it is not read back in
+   * place of the rejected one.
+   * @param {K} key - The key to set.
+   * @param {V} value - The value to store.
+   * @param {SetOptions} [options] - Per-call options.
+   * @param {number} [options.ttl] - Time-to-live in milliseconds, defaults to the cache's defaultTtl.
+   * @param {string[]} [options.tags] - Tags to invalidate the entry by with invalidateTag.
+   * @returns {Promise<void>} A promise that resolves when the operation completes.
+   */
+  public async set(key: K, value: V, { ttl = this.defaultTtl, tags }: SetOptions = {}): Promise<void> {
+    const entryTags = tags && tags.length > 0 ? Array.from(new Set(tags)) : null
+    const processed = this.valueIn(value)
+    const bytes = this._sizeOf(key, value, processed)
+    if (!this._fits(bytes)) {
+      await this.unset(key)
+      throw new Error(`value of ${bytes} bytes exceeds maxBytes (${this.maxBytes})`)
+    }
+    // derived before storing, so a key without a remote key is rejected before anything changes
+    const remoteKey = this.writeThrough && this.storage ? this._remoteKey(key) : null
+    const lifetime = this._lifetime(ttl)
+    this._store(key, processed, lifetime, bytes, entryTags)
+    this.totals.sets++
+    this.emit('set', key, value)
+    if (remoteKey != null && this.storage) {
+      const remoteValue = this._toRemote(key, processed, entryTags)
+      // remote storage keeps the value through the stale grace period as well
+      const remoteTtl = ttl > 0 ? ttl + this.staleWhileRevalidate : 0
+      if (this.queue) {
+        await this.queue.set(remoteKey, remoteValue, remoteTtl)
+      } else {
+        const storage = this.storage
+        await this._remote(() => storage.set(remoteKey, remoteValue, { ttl: remoteTtl }), undefined)
+      }
+      await this._tagRemote(entryTags, [remoteKey], remoteTtl)
+    }
+    // with write-behind, the queue publishes once the write has been flushed
+    if (this.bus && !this.queue) {
+      this._publish([this._remoteKey(key)])
+    }
+  }
+
+  /**
+   * Sets several key-value pairs at once, then writes them to remote storage
+   * with a single pipelined bulk write when write-through is enabled. Entries
+   * are stored in order, so when there are more than maxSize of them the
+   * earliest are evicted from memory again, although all of them reach remote
+   * storage. Nothing is stored if any value is larger than maxBytes on its own.
+   * @param {Array<[K, V]>} entries - The key-value pairs; a later pair wins over an earlier one with the same key.
+   * @param {SetOptions} [options] - Options applied to every entry.
+   * @param {number} [options.ttl] - Time-to-live in milliseconds, defaults to the cache's defaultTtl.
+   * @param {string[]} [options.tags] - Tags to invalidate the entries by with invalidateTag.
+   * @returns {Promise<void>} A promise that resolves when the operation completes.
+   */
+  public async setMany(entries: Array<[K, V]>, { ttl = this.defaultTtl, tags }: SetOptions = {}): Promise<void> {
+    const entryTags = tags && tags.length > 0 ? Array.from(new Set(tags)) : null
+    const prepared = entries.map(([key, value]) => {
+      const processed = this.valueIn(value)
+      const bytes = this._sizeOf(key, value, processed)
+      if (!this._fits(bytes)) {
+        throw new Error(`value of ${bytes} bytes exceeds maxBytes (${this.maxBytes})`)
+      }
+      return { key, value, processed, bytes }
+    })
+    // derived before storing, so a key without a remote key is rejected before anything changes
+    const remote = new Map<string, string>()
+    if ((this.writeThrough && this.storage) || this.bus) {
+      for (const { key, processed } of prepared) {
+        remote.set(this._remoteKey(key), this._toRemote(key, processed, entryTags))
+      }
+    }
+    const lifetime = this._lifetime(ttl)
+    for (const { key, value, processed, bytes } of prepared) {
+      this._store(key, processed, lifetime, bytes, entryTags)
+      this.totals.sets++
+      this.emit('set', key, value)
+    }
+    if (!(this.writeThrough && this.storage) && !this.bus) return
+    if (this.writeThrough && this.storage) {
+      const remoteTtl = ttl > 0 ? ttl + this.staleWhileRevalidate : 0
+      if (this.queue) {
+        for (const [remoteKey, value] of remote) {
+          await this.queue.set(remoteKey, value, remoteTtl)
+        }
+      } else {
+        const storage = this.storage
+        const batch = Array.from(remote, ([key, value]) => ({ key, value, ttl: remoteTtl }))
+        await this._remote(() => storage.setMany(batch), undefined)
+      }
+      await this._tagRemote(entryTags, Array.from(remote.keys()), remoteTtl)
+    }
+    if (this.bus && !this.queue) {
+      this._publish(Array.from(remote.keys()))
+    }
+  }
+
+  /**
+   * Removes a key and its value from the cache.
+   * Also removes the key from remote storage if write-through is enabled.
+   * @param {K} key - The key to remove.
+   * @returns {Promise<void>} A promise that resolves when the operation completes.
+   */
+  public async unset(key: K): Promise<void> {
+    this.totals.deletes++
+    const node = this.cache.get(this._id(key))
+    if (node) {
+      this.policy.remove(node)
+      this._discard(node, 'deleted')
+    }
+    if (this.writeThrough && this.storage) {
+      if (this.queue) {
+        await this.queue.delete(this._remoteKey(key))
+      } else {
+        const storage = this.storage
+        await this._remote(() => storage.delete(this._remoteKey(key)), undefined)
+      }
+    }
+    if (this.bus && !this.queue) {
+      this._publish([this._remoteKey(key)])
+    }
+  }
+
+  /**
+   * Removes several keys at once, then deletes them from remote storage with
+   * a single bulk delete when write-through is enabled.
+   * @param {K[]} keys - The keys to remove.
+   * @returns {Promise<void>} A promise that resolves when the operation completes.
+   */
+  public async unsetMany(keys: K[]): Promise<void> {
+    for (const key of keys) {
+      this.totals.deletes++
+      const node = this.cache.get(this._id(key))
+      if (node) {
+        this.policy.remove(node)
+        this._discard(node, 'deleted')
+      }
+    }
+    if (!(this.writeThrough && this.storage) && !this.bus) return
+    const remoteKeys = Array.from(new Set(keys.map((key) => this._remoteKey(key))))
+    if (this.writeThrough && this.storage) {
+      if (this.queue) {
+        for (const remoteKey of remoteKeys) {
+          await this.queue.delete(remoteKey)
+        }
+      } else {
+        const storage = this.storage
+        await this._remote(() => storage.deleteMany(remoteKeys), undefined)
+      }
+    }
+    if (this.bus && !this.queue) {
+      this._publish(remoteKeys)
+    }
+  }
+
+  /**
+   * Removes every entry set with a tag. With write-through, the remote keys
+   * recorded under the tag are deleted as well, including those of entries
+   * other instances wrote or this one evicted from memory, as long as their
+   * remote value still carries the tag, and other instances are told to drop them.
+   * @param {string} tag - The tag.
+   * @returns {Promise<number>} The number of keys removed from memory or remote storage.
+   */
+  public async invalidateTag(tag: string): Promise<number> {
+    const nodes = Array.from(this.tagIndex.get(tag) ?? [], (id) => this.cache.get(id)!)
+    for (const node of nodes) {
+      this.policy.remove(node)
+      this._discard(node, 'deleted')
+    }
+    if (!(this.writeThrough && this.storage) && !this.bus) {
+      this.totals.deletes += nodes.length
+      return nodes.length
+    }
+    const remoteKeys = new Set(nodes.map((node) => this._remoteKey(node.key)))
+    if (this.writeThrough && this.storage) {
+      const storage = this.storage
+      if (storage.members) {
+        const tagKey = this._tagKey(tag)
+        const members = await this._remote(() => storage.members!(tagKey), [])
+        const unknown = members.filter((remoteKey) => !remoteKeys.has(remoteKey))
+        for (const remoteKey of await this._stillTagged(storage, tag, unknown)) {
+          remoteKeys.add(remoteKey)
+        }
+        await this._remote(() => storage.delete(tagKey), undefined)
+      }
+      if (this.queue) {
+        for (const remoteKey of remoteKeys) {
+          await this.queue.delete(remoteKey)
+        }
+      } else {
+        await this._remote(() => storage.deleteMany(Array.from(remoteKeys)), undefined)
+      }
+    }
+    if (this.bus && !this.queue) {
+      this._publish(Array.from(remoteKeys))
+    }
+    this.totals.deletes += remoteKeys.size
+    return remoteKeys.size
+  }
+
+  /**
+   * Writes every queued write-behind operation to remote storage. Resolves
+   * immediately when write-behind is not enabled.
+   * @returns {Promise<void>} Resolves once the queue is empty.
+   */
+  public async flush(): Promise<void> {
+    if (this.queue) {
+      await this.queue.flush()
+    }
+  }
+
+  /**
+   * Waits for remote storage to be ready, for example for the Redis connection
+   * to open. Resolves immediately without remote storage.
+   * @returns {Promise<void>} Resolves once connected, rejects if connecting failed.
+   */
+  public async ready(): Promise<void> {
+    await this.storage?.ready?.()
+  }
+
+  /**
+   * Stops background write-behind flushes, waits for queued writes to reach
+   * remote storage, stops listening for invalidations and disconnects from
+   * Redis if the cache opened the connection. Call it before the process exits.
+   * @returns {Promise<void>} Resolves once everything is closed.
+   */
+  public async close(): Promise<void> {
+    if (this.queue) {
+      await this.queue.close()
+    }
+    // a subscription still being set up may never connect, so it is given up instead of waited for
+    this.subscribing?.abort()
+    this.subscribing = undefined
+    const unsubscribe = this.unsubscribe
+    if (unsubscribe) {
+      this.unsubscribe = undefined
+      await unsubscribe()
+    }
+    if (this.ownsStorage) {
+      this.ownsStorage = false
+      await this.storage?.close?.()
+    }
+  }
+
+  /**
+   * Closes the cache at the end of an `await using` block.
+   * @returns {Promise<void>} Resolves once everything is closed.
+   */
+  public [Symbol.asyncDispose](): Promise<void> {
+    return this.close()
+  }
+
+  /**
+   * Iterates over the keys from most to least recently used, or in the order
+   * the eviction policy ranks them, skipping expired entries. Iterating does
+   * not change the order.
+   * @returns {Generator<K>} The keys.
+   */
+  public *keys(): Generator<K> {
+    for (const node of this._nodes()) {
+      yield node.key
+    }
+  }
+
+  /**
+   * Iterates over the keys from least to most recently used, or in reverse
+   * eviction policy order, skipping expired entries: roughly the order in
+   * which they would be evicted.
+   * @returns {Generator<K>} The keys.
+   */
+  public *rkeys(): Generator<K> {
+    const now = Date.now()
+    for (const node of this.policy.rnodes() as Iterable<ListNode<K, V>>) {
+      if (!this._isExpired(node, now)) yield node.key
+    }
+  }
+
+  /**
+   * Iterates over the values in the same order as keys(), skipping
+   * expired entries. Each value is decoded only when it is reached.
+   * @returns {Generator<V>} The values.
+   */
+  public *values(): Generator<V> {
+    for (const node of this._nodes()) {
+      yield this.valueOut(node.storedValue) as V
+    }
+  }
+
+  /**
+   * Iterates over the entries in the same order as keys(), skipping
+   * expired entries. Each value is decoded only when it is reached.
+   * @returns {Generator<[K, V]>} The key-value pairs.
+   */
+  public *entries(): Generator<[K, V]> {
+    for (const node of this._nodes()) {
+      yield [node.key, this.valueOut(node.storedValue) as V]
+    }
+  }
+
+  /**
+   * Iterates over the entries in the same order as keys(), as entries() does.
+   * @returns {Generator<[K, V]>} The key-value pairs.
+   */
+  public [Symbol.iterator](): Generator<[K, V]> {
+    return this.entries()
+  }
+
+  /**
+   * Walks the nodes in the eviction policy's order, most worth keeping first,
+   * skipping expired nodes.
+   * @private
+   * @returns {Generator<ListNode<K, V>>} The live nodes.
+   */
+  private *_nodes(): Generator<ListNode<K, V>> {
+    const now = Date.now()
+    for (const node of this.policy.nodes() as Iterable<ListNode<K, V>>) {
+      if (!this._isExpired(node, now)) yield node
+    }
+  }
+
+  /**
+   * Retrieves all unexpired entries in the cache, in insertion order.
+   * Use entries() to iterate in recency order without decoding every value up front.
+   * @returns {Array<[K, V]>} An array of key-value pairs.
+   */
+  public allEntries(): [K, V][] {
+    const entries: [K, V][] = []
+    const now = Date.now()
+    for (const node of this.cache.values()) {
+      if (this._isExpired(node, now)) continue
+      const value =
+        this.compress || this.encrypt
+          ? (this.valueOut(node.storedValue) as V)
+          : (node.storedValue as V)
+      entries.push([node.key, value])
+    }
+    return entries
+  }
+
+  /**
+   * Copies the unexpired entries into a snapshot, in recency order (or the
+   * eviction policy's order), each in its stored form with its timestamps and
+   * time-to-live, so values are not decoded and stay encrypted. Entries whose
+   * key has no serialization, such as symbol keys, are left out.
+   * @returns {Snapshot} The snapshot.
+   */
+  public dump(): Snapshot {
+    const entries: SnapshotEntry[] = []
+    for (const node of this._nodes()) {
+      // JSON has no form for symbols, their serialization is undefined
+      const key = this.serializer.serialize(node.key)
+      if (typeof key !== 'string') continue
+      entries.push({
+        key,
+        value:
+          this.compress || this.encrypt ? (node.storedValue as string) : this.serializer.serialize(node.storedValue),
+        timestamp: node.timestamp,
+        ttl: node.ttl,
+        freshUntil: node.freshUntil,
+        staleUntil: node.staleUntil,
+        bytes: node.bytes,
+        ...(node.tags ? { tags: node.tags } : {})
+      })
+    }
+    return {
+      header: {
+        format: SNAPSHOT_FORMAT,
+        version: SNAPSHOT_VERSION,
+        createdAt: Date.now(),
+        compress: this.compress,
+        encrypt: this.encrypt,
+        count: entries.length,
+        checksum: snapshotChecksum(entries)
+      },
+      entries
+    }
+  }
+
+  /**
+   * Restores the entries of a snapshot into memory, on top of the current
+   * entries, keeping their order, timestamps and expiry. Entries that have
+   * expired meanwhile are skipped, and when the snapshot holds more than
+   * maxSize entries only the most recent ones are loaded. Remote storage is
+   * not written to.
+   * @param {Snapshot} snapshot - A snapshot from dump().
+   * @returns {number} The number of entries loaded.
+   */
+  public load(snapshot: Snapshot): number {
+    const { header, entries } = snapshot ?? {}
+    if (header?.format !== SNAPSHOT_FORMAT || !Array.isArray(entries)) {
+      throw new Error('not a SuperLRU snapshot')
+    }
+    if (header.version !== SNAPSHOT_VERSION) {
+      throw new Error(`unsupported snapshot version ${header.version}`)
+    }
+    if (header.count !== entries.length || header.checksum !== snapshotChecksum(entries)) {
+      throw new Error('snapshot checksum mismatch')
+    }
+    if (header.compress !== this.compress || header.encrypt !== this.encrypt) {
+      throw new Error('snapshot compress and encrypt settings do not match the cache')
+    }
+    const now = Date.now()
+    const live = entries.filter(({ staleUntil }) => staleUntil == null || staleUntil > now).slice(0, this.capacity)
+    // store the least recent first, so the most recent ends up at the head
+    for (let i = live.length - 1; i >= 0; i--) {
+      const { key, value, timestamp, ttl, freshUntil, staleUntil, bytes, tags } = live[i]
+      const cacheKey = this.serializer.deserialize(key) as K
+      const stored = this.compress || this.encrypt ? value : (this.serializer.deserialize(value) as V)
+      this._store(cacheKey, stored, { ttl, freshUntil, staleUntil }, bytes, tags ?? null)
+      const node = this.cache.get(this._id(cacheKey))
+      if (node) node.timestamp = timestamp
+    }
+    return live.length
+  }
+
+  /**
+   * Writes a snapshot of the cache to a file. The file is written to a
+   * temporary name and renamed, so it is never left half-written.
+   * @param {string} file - Path of the file.
+   * @returns {Promise<number>} The number of entries written.
+   */
+  public async saveToFile(file: string): Promise<number> {
+    const snapshot = this.dump()
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`
+    await fs.writeFile(temp, JSON.stringify(snapshot))
+    await fs.rename(temp, file)
+    return snapshot.header.count
+  }
+
+  /**
+   * Loads a snapshot written by saveToFile, as load() does.
+   * @param {string} file - Path of the file.
+   * @returns {Promise<number>} The number of entries loaded.
+   */
+  public async loadFromFile(file: string): Promise<number> {
+    const text = await fs.readFile(file, 'utf8')
+    let snapshot: Snapshot
+    try {
+      snapshot = JSON.parse(text)
+    } catch {
+      throw new Error('not a SuperLRU snapshot')
+    }
+    return this.load(snapshot)
+  }
+
+  /**
+   * Loads entries from remote storage into memory, so a new instance does not
+   * start cold. Scans the remote keys of the cache's namespace, or every key
+   * without a namespace, a page at a time, and reads each page in batches,
+   * yielding between batches so get and set keep being served. Scanning
+   * stops once the limit is reached. Keys already in memory, including those
+   * set while warming, are left alone, and values written before remote
+   * values recorded their key are skipped. Emits `warmProgress` after every
+   * batch and `warmError` for batches or entries that cannot be loaded.
+   * @param {WarmOptions} [options] - Warming options.
+   * @param {number} [options.limit=maxSize] - Maximum number of entries to load, capped at maxSize.
+   * @returns {Promise<WarmResult>} How many keys were scanned, loaded, skipped and failed.
+   */
+  public async warm({ limit = this.capacity }: WarmOptions = {}): Promise<WarmResult> {
+    if (!this.writeThrough || !this.storage) {
+      throw new Error('warm requires writeThrough to be enabled')
+    }
+    const storage = this.storage
+    const max = Math.min(limit, this.capacity)
+    const prefix = this.namespace != null ? this._namespacePrefix() : ''
+    const result: WarmResult = { scanned: 0, loaded: 0, skipped: 0, failed: 0 }
+    for await (const remoteKeys of this._scan(storage, prefix)) {
+      for (let i = 0; i < remoteKeys.length && result.loaded < max; i += WARM_BATCH_SIZE) {
+        await new Promise((resolve) => setImmediate(resolve))
+        const batch = remoteKeys.slice(i, i + WARM_BATCH_SIZE)
+        result.scanned += batch.length
+        let records: RemoteRecord[] | null
+        try {
+          records = await this._remote(() => this._fetchMany(storage, batch), null)
+        } catch (error) {
+          this.emit('warmError', error as Error, batch)
+          records = null
+        }
+        if (!records) {
+          result.failed += batch.length
+          continue
+        }
+        for (let j = 0; j < batch.length && result.loaded < max; j++) {
+          if (await this._warmOne(batch[j], this._fromQueue(batch[j]) ?? records[j])) {
+            result.loaded++
+          } else {
+            result.skipped++
+          }
+        }
+        this.emit('warmProgress', result.loaded, result.scanned)
+      }
+      if (result.loaded >= max) break
+    }
+    return result
+  }
+
+  /**
+   * Loads one remote value found by warm into memory, unless its key is
+   * already there or cannot be recovered.
+   * @private
+   * @param {string} remoteKey - The remote key.
+   * @param {RemoteRecord} record - The remote value and its remaining time-to-live.
+   * @returns {Promise<boolean>} True if the entry was loaded.
+   */
+  private async _warmOne(remoteKey: string, { text, remaining }: RemoteRecord): Promise<boolean> {
+    if (text == null) return false
+    try {
+      const { k } = this._unwrap(text)
+      if (k == null) return false
+      const key = this._envelopeKey(k)
+      // the value must belong where it was found, and must not replace a newer one
+      if (this._remoteKey(key) !== remoteKey) return false
+      if (this._getNode(key) || this.inflight.has(this._id(key))) return false
+      await this._fill(key, remoteKey, text, remaining)
+      return true
+    } catch (error) {
+      this.emit('warmError', error as Error, [remoteKey])
+      return false
+    }
+  }
+
+  /**
+   * Counts the keys this cache's namespace holds in remote storage.
+   * @returns {Promise<number>} The number of live remote keys in the namespace.
+   */
+  public async countNamespace(): Promise<number> {
+    const storage = this._namespaced('countNamespace')
+    let count = 0
+    for await (const keys of this._scan(storage, this._namespacePrefix())) {
+      count += keys.length
+    }
+    return count
+  }
+
+  /**
+   * Removes every key this cache's namespace holds in remote storage, leaving
+   * other namespaces and the in-memory entries untouched. Other instances are
+   * told to drop the keys.
+   * @returns {Promise<number>} The number of remote keys removed.
+   */
+  public async clearNamespace(): Promise<number> {
+    return this._clearRemote(this._namespaced('clearNamespace'))
+  }
+
+  /**
+   * Empties the cache. By default only memory is emptied; with `remote`, the
+   * keys of the cache's namespace are deleted from remote storage as well,
+   * and other instances are told to drop them.
+   * @param {ClearOptions} [options] - What to clear.
+   * @param {boolean} [options.memory=true] - Empty the in-memory cache.
+   * @param {boolean} [options.remote=false] - Delete the namespace's remote keys, requires a namespace.
+   * @param {boolean} [options.notify=false] - Emit `evict` with the reason 'cleared' for every in-memory entry.
+   * @returns {Promise<void>} A promise that resolves when the operation completes.
+   */
+  public async clear({ memory = true, remote = false, notify = false }: ClearOptions = {}): Promise<void> {
+    // check the remote requirements before anything is removed
+    const storage = remote ? this._namespaced('clear') : undefined
+    if (memory) {
+      const cleared = Array.from(this.cache.values())
+      this.cache.clear()
+      this.remoteIndex?.clear()
+      this.tagIndex.clear()
+      this.policy.clear()
+      this.size = 0
+      this.bytes = 0
+      this.totals.evictions.cleared += cleared.length
+      if (notify && this.listenerCount('evict') > 0) {
+        for (const node of cleared) {
+          this.emit('evict', node.key, this.valueOut(node.storedValue) as V, 'cleared')
+        }
+      }
+    }
+    if (storage) {
+      await this._clearRemote(storage)
+    }
+  }
+
+  /**
+   * Deletes the namespace's remote keys one scanned page at a time, in
+   * batches, dropping queued write-behind operations first so they cannot
+   * bring keys back, then the namespace's tag sets.
+   * @private
+   * @param {StorageAdapter} storage - The storage adapter.
+   * @returns {Promise<number>} The number of remote keys removed.
+   */
+  private async _clearRemote(storage: StorageAdapter): Promise<number> {
+    await this.queue?.discard()
+    let count = 0
+    for await (const keys of this._scan(storage, this._namespacePrefix())) {
+      for (let i = 0; i < keys.length; i += CLEAR_BATCH_SIZE) {
+        const batch = keys.slice(i, i + CLEAR_BATCH_SIZE)
+        await this._remote(() => storage.deleteMany(batch), undefined)
+        this._publish(batch)
+      }
+      count += keys.length
+    }
+    for await (const tagKeys of this._scan(storage, this._tagPrefix())) {
+      if (tagKeys.length > 0) {
+        await this._remote(() => storage.deleteMany(tagKeys), undefined)
+      }
+    }
+    return count
+  }
+
+  /**
+   * Makes a key the active encryption key and re-encrypts existing entries
+   * with it in the background: the in-memory entries and their remote copies,
+   * then, with a namespace, the entries of the namespace found only in remote
+   * storage. Keep the previous keys in the keyring: entries written under them
+   * stay readable until they have been re-encrypted.
+   * @param {string} keyId - ID of the key to activate.
+   * @param {Buffer} [key] - The key, if it is not in the keyring yet.
+   * @returns {Promise<number>} Resolves with the number of entries re-encrypted once the pass completes.
+   */
+  public async rotateKey(keyId: string, key?: Buffer): Promise<number> {
+    if (!this.encrypt) {
+      throw new Error('rotateKey requires encrypt to be enabled')
+    }
+    if (key != null) {
+      this.keyring.set(keyId, key)
+    }
+    if (!this.keyring.has(keyId)) {
+      throw new Error(`keyring has no key with id "${keyId}"`)
+    }
+    this.activeKeyId = keyId
+    let count = await this._reencrypt()
+    if (this.namespace != null && this.writeThrough && this.storage) {
+      count += await this._reencryptRemote(keyId)
+    }
+    return count
+  }
+
+  /**
+   * Re-encrypts every in-memory entry, and its write-through remote copy, that
+   * is not encrypted with the active key. Yields to the event loop between
+   * batches so normal traffic is not blocked; failures are reported through
+   * the `reencryptError` event.
+   * @private
+   * @returns {Promise<number>} The number of entries re-encrypted.
+   */
+  private async _reencrypt(): Promise<number> {
+    const keyId = this.activeKeyId
+    const nodes = Array.from(this.cache.values())
+    let count = 0
+    for (let i = 0; i < nodes.length; i++) {
+      if (i % REENCRYPT_BATCH_SIZE === 0) {
+        await new Promise((resolve) => setImmediate(resolve))
+      }
+      const node = nodes[i]
+      // skip entries removed in the meantime and keys rotated again since
+      if (this.cache.get(node.id) !== node || keyId !== this.activeKeyId) continue
+      if (parseKeyId(node.storedValue as string).keyId === keyId) continue
+      try {
+        const value = this.valueOut(node.storedValue) as V
+        const processed = this.valueIn(value)
+        const bytes = this._sizeOf(node.key, value, processed)
+        this.bytes += bytes - node.bytes
+        node.storedValue = processed
+        node.bytes = bytes
+        count++
+        if (this.writeThrough && this.storage) {
+          const replacement = this._toRemote(node.key, processed, node.tags)
+          await this._remote(() => this._replaceRemote(this._remoteKey(node.key), replacement), undefined)
+        }
+      } catch (error) {
+        this.emit('reencryptError', node.key, error as Error)
+      }
+    }
+    return count
+  }
+
+  /**
+   * Re-encrypts the namespace's remote values that are not in memory and not
+   * encrypted with the active key, scanning one page at a time and keeping
+   * their expiry. Values whose key cannot be decoded, including bare values
+   * written before remote values recorded their key, are left alone.
+   * @private
+   * @param {string} keyId - The key ID the pass re-encrypts to; the pass stops if keys are rotated again.
+   * @returns {Promise<number>} The number of remote values re-encrypted.
+   */
+  private async _reencryptRemote(keyId: string): Promise<number> {
+    const storage = this.storage!
+    let count = 0
+    for await (const remoteKeys of this._scan(storage, this._namespacePrefix())) {
+      for (let i = 0; i < remoteKeys.length; i += REENCRYPT_BATCH_SIZE) {
+        await new Promise((resolve) => setImmediate(resolve))
+        if (keyId !== this.activeKeyId) return count
+        const batch = remoteKeys.slice(i, i + REENCRYPT_BATCH_SIZE)
+        const texts = await this._remote(() => storage.getMany(batch), null)
+        if (!texts) continue
+        for (let j = 0; j < batch.length; j++) {
+          // a queued write is newer than the remote value, a queued delete leaves nothing to do
+          const queued = this._fromQueue(batch[j])
+          const text = queued ? queued.text : texts[j]
+          if (text == null) continue
+          let key: K
+          let envelope: { k: string | null; v: string; t: string[] | null }
+          try {
+            envelope = this._unwrap(text)
+            if (envelope.k == null || parseKeyId(envelope.v).keyId === keyId) continue
+            key = this._envelopeKey(envelope.k)
+          } catch {
+            continue
+          }
+          // entries in memory were handled with their remote copies, or are being loaded
+          const id = this._id(key)
+          if (this._remoteKey(key) !== batch[j] || this.cache.has(id) || this.inflight.has(id)) continue
+          try {
+            const replacement = this._toRemote(key, this.valueIn(this.valueOut(envelope.v) as V), envelope.t)
+            await this._remote(() => this._replaceRemote(batch[j], replacement), undefined)
+            count++
+          } catch (error) {
+            this.emit('reencryptError', key, error as Error)
+          }
+        }
+      }
+    }
+    return count
+  }
+
+  /**
+   * Returns the cache statistics gathered since they were last flushed.
+   * @param {boolean} [flush=false] - Start counting from zero again after reading them.
+   * @returns {CacheStats} Operation, eviction and remote counts, latencies, the hit ratio, the current size and bytes, and the circuit breaker state, null without a breaker.
+   */
+  public stats(flush: boolean = false): CacheStats {
+    const { totals, baseline } = this
+    const hits = totals.hits - baseline.hits
+    const misses = totals.misses - baseline.misses
+    const evictions = { ...totals.evictions }
+    for (const reason of Object.keys(evictions) as EvictionReason[]) {
+      evictions[reason] -= baseline.evictions[reason]
+    }
+    const stats: CacheStats = {
+      hits,
+      misses,
+      hitRatio: hits + misses > 0 ? hits / (hits + misses) : 0,
+      sets: totals.sets - baseline.sets,
+      deletes: totals.deletes - baseline.deletes,
+      evictions,
+      remote: {
+        hits: totals.remote.hits - baseline.remote.hits,
+        misses: totals.remote.misses - baseline.remote.misses,
+        errors: totals.remote.errors - baseline.remote.errors
+      },
+      latency: {
+        compression: this.latency.compression.stats(),
+        encryption: this.latency.encryption.stats(),
+        remote: this.latency.remote.stats()
+      },
+      size: this.size,
+      bytes: this.bytes,
+      breaker: this.breaker ? this.breaker.state : null
+    }
+    if (flush) {
+      this.baseline = { ...totals, evictions: { ...totals.evictions }, remote: { ...totals.remote } }
+      this.latency.compression.reset()
+      this.latency.encryption.reset()
+      this.latency.remote.reset()
+    }
+    return stats
+  }
+
+  /**
+   * Returns the running totals behind stats(). They only ever grow, whether
+   * or not the statistics are flushed, so several readers such as metrics
+   * exporters can use them without interfering with each other.
+   * @returns {CacheCounters} The totals, and the current size and bytes.
+   */
+  public counters(): CacheCounters {
+    const { totals, latency } = this
+    return {
+      ...totals,
+      evictions: { ...totals.evictions },
+      remote: { ...totals.remote },
+      latency: {
+        compression: { count: latency.compression.count, total: latency.compression.total },
+        encryption: { count: latency.encryption.count, total: latency.encryption.total },
+        remote: { count: latency.remote.count, total: latency.remote.total }
+      },
+      size: this.size,
+      bytes: this.bytes
+    }
+  }
+
+  /**
+   * Builds the encryption configuration for a key in the keyring.
+   * @private
+   * @param {string} [keyId=this.activeKeyId] - ID of the key to use.
+   * @param {EncryptionAlgorithm} [algo=this.algorithm] - The algorithm to use.
+   * @returns {EncryptionConfig} The encryption configuration.
+   */
+  private _encryption(
+    keyId: string = this.activeKeyId,
+    algo: EncryptionAlgorithm = this.algorithm
+  ): EncryptionConfig {
+    const securityKey = this.keyring.get(keyId)
+    if (securityKey == null) {
+      throw new Error(`keyring has no key with id "${keyId}"`)
+    }
+    return { algo, initVector: this.initVector, securityKey }
+  }
+
+  /**
+   * Compresses a value with the configured codec and tags it with the codec
+   * name, so values stay readable after the codec setting changes. Values
+   * below compressionThreshold are stored uncompressed under the `none` codec.
+   * @private
+   * @param {V} value - The value to compress.
+   * @returns {string} The tagged, compressed value.
+   */
+  private _compress(value: V): string {
+    const text = this.serializer.serialize(value)
+    if (Buffer.byteLength(text) < this.compressionThreshold || this.codec.name === 'none') {
+      return `none:${text}`
+    }
+    return `${this.codec.name}:${this.codec.encode(Buffer.from(text)).toString('base64')}`
+  }
+
+  /**
+   * Decompresses a tagged value with the codec it was written with. Untagged
+   * values were written before codecs were recorded and use gzip.
+   * @private
+   * @param {string} value - The tagged, compressed value.
+   * @returns {string} The decompressed, serialized value.
+   */
+  private _decompress(value: string): string {
+    const index = value.indexOf(':')
+    if (index === -1) {
+      return decompressValue(value)
+    }
+    const name = value.slice(0, index)
+    const data = value.slice(index + 1)
+    if (name === 'none') {
+      return data
+    }
+    const codec = this.codecs.get(name)
+    if (codec == null) {
+      throw new Error(`unknown compression codec "${name}"`)
+    }
+    return decompressValue(data, codec)
+  }
+
+  /**
+   * Processes the input value by serializing it and applying compression
+   * and/or encryption. Without either, the value is stored as-is.
+   * Encrypted values are tagged with the ID of the key that encrypted them.
+   * @private
+   * @param {V} value - The value to process.
+   * @returns {string | V} The processed value.
+   */
+  private valueIn(value: V): string | V {
+    if (!this.compress && !this.encrypt) return value
+    let data = this.compress
+      ? this.latency.compression.time(() => this._compress(value))
+      : this.serializer.serialize(value)
+    if (this.encrypt) {
+      const plaintext = data
+      const { encrypted } = this.latency.encryption.time(() => encryptValue(plaintext, this._encryption()))
+      data = `${this.activeKeyId}:${encrypted}`
+    }
+    return data
+  }
+
+  /**
+   * Processes the stored value by applying decryption and/or decompression
+   * and deserializing the result.
+   * Untagged ciphertexts were written by earlier versions and are decoded
+   * with _legacyValueOut.
+   * @private
+   * @param {string | V | null} value - The stored value to process.
+   * @returns {V | null} The original value.
+   */
+  private valueOut(value: string | V | null): V | null {
+    if (value == null) return null
+    if (!this.compress && !this.encrypt) return value as V
+    let data = value as string
+    if (this.encrypt) {
+      const { keyId, encrypted } = parseKeyId(data)
+      if (keyId == null) return this._legacyValueOut(encrypted)
+      data = this.latency.encryption.time(() =>
+        decryptValue<string>(encrypted, 'string', this._encryption(keyId))
+      )
+    }
+    if (this.compress) {
+      const compressed = data
+      data = this.latency.compression.time(() => this._decompress(compressed))
+    }
+    return this.serializer.deserialize(data) as V
+  }
+
+  /**
+   * Decodes an encrypted value written by an earlier version, which
+   * encrypted first and then gzipped the JSON of the ciphertext, without key
+   * IDs or codec names. It is decrypted with aes-256-cbc, the only algorithm
+   * of those versions, using the active key and the initVector. Strings were
+   * encrypted as they are rather than serialized, so text that does not
+   * deserialize is returned as it is.
+   * @private
+   * @param {string} value - The stored value.
+   * @returns {V} The original value.
+   */
+  private _legacyValueOut(value: string): V {
+    let encrypted = value
+    if (this.compress) {
+      encrypted = JSON.parse(this.latency.compression.time(() => decompressValue(value)))
+    }
+    const text = this.latency.encryption.time(() =>
+      decryptValue<string>(encrypted, 'string', this._encryption(this.activeKeyId, 'aes-256-cbc'))
+    )
+    try {
+      return this.serializer.deserialize(text) as V
+    } catch {
+      return text as unknown as V
+    }
+  }
+
+  /**
+   * Returns what a key is filed under in memory: its serialization, canonical
+   * by default, or the symbol itself, since symbols are unique and have none.
+   * @private
+   * @param {K} key - The cache key.
+   * @returns {string | symbol} The in-memory key.
+   */
+  private _id(key: K): string | symbol {
+    return typeof key === 'symbol' ? key : (this.keySerializer ?? canonicalKeySerializer)(key)
+  }
+
+  /**
+   * Maps a cache key to its remote storage key: the hash of the serialized
+   * key, prefixed with `superlru:{namespace}:` when a namespace is set.
+   * Without a key serializer, string and number keys hash as they did in
+   * earlier versions, so existing remote entries keep being found. Symbols
+   * have no serialization, different symbols would share a remote key, so
+   * they are rejected.
+   * @private
+   * @param {K} key - The cache key.
+   * @returns {string} The remote key.
+   */
+  private _remoteKey(key: K): string {
+    if (typeof key === 'symbol') {
+      throw new Error('symbol keys cannot be used with remote storage or invalidation')
+    }
+    const hash = this.keyHash((this.keySerializer ?? legacyKeySerializer)(key))
+    return this.namespace != null ? this._namespacePrefix() + hash : hash
+  }
+
+  /**
+   * Maps a tag to the remote key of the set holding the remote keys tagged
+   * with it. Tag sets live outside the namespace prefix, so namespace
+   * operations and warm only see entries.
+   * @private
+   * @param {string} tag - The tag.
+   * @returns {string} The remote key of the tag set.
+   */
+  private _tagKey(tag: string): string {
+    return this._tagPrefix() + tag
+  }
+
+  /**
+   * Returns the prefix shared by the remote keys of this cache's tag sets.
+   * @private
+   * @returns {string} The prefix.
+   */
+  private _tagPrefix(): string {
+    return this.namespace != null ? `superlru-tag:${this.namespace}:` : 'superlru-tag:'
+  }
+
+  /**
+   * Records remote keys in the remote sets of their tags, when the storage
+   * adapter supports sets. The sets are written right away, even with
+   * write-behind, so a tag can be invalidated before the values are flushed,
+   * and live at least as long as the values.
+   * @private
+   * @param {string[] | null} tags - The tags.
+   * @param {string[]} remoteKeys - The remote keys carrying them.
+   * @param {number} ttl - Remote time-to-live of the values in milliseconds, 0 for no expiry.
+   * @returns {Promise<void>} Resolves once the sets are updated.
+   */
+  private async _tagRemote(tags: string[] | null, remoteKeys: string[], ttl: number): Promise<void> {
+    const storage = this.storage
+    if (!tags || !storage?.addMembers) return
+    await this._remote(
+      () => Promise.all(tags.map((tag) => storage.addMembers!(this._tagKey(tag), remoteKeys, ttl))),
+      undefined
+    )
+  }
+
+  /**
+   * Narrows members of a tag set down to the remote keys whose current value,
+   * or queued write-behind value, still carries the tag. Sets are not updated
+   * when an entry is set again with other tags or deleted, so a member may
+   * name an entry that no longer belongs to the tag.
+   * @private
+   * @param {StorageAdapter} storage - The storage adapter.
+   * @param {string} tag - The tag.
+   * @param {string[]} remoteKeys - Members of the tag set.
+   * @returns {Promise<string[]>} The remote keys still tagged.
+   */
+  private async _stillTagged(storage: StorageAdapter, tag: string, remoteKeys: string[]): Promise<string[]> {
+    const tagged: string[] = []
+    for (let i = 0; i < remoteKeys.length; i += TAG_BATCH_SIZE) {
+      const batch = remoteKeys.slice(i, i + TAG_BATCH_SIZE)
+      const texts = await this._remote(() => storage.getMany(batch), null)
+      if (!texts) continue
+      for (let j = 0; j < batch.length; j++) {
+        const queued = this._fromQueue(batch[j])
+        const text = queued ? queued.text : texts[j]
+        if (text == null) continue
+        try {
+          if (this._unwrap(text).t?.includes(tag)) tagged.push(batch[j])
+        } catch {
+          // written by a newer version, leave it alone
+        }
+      }
+    }
+    return tagged
+  }
+
+  /**
+   * Returns the prefix shared by every remote key in this cache's namespace.
+   * @private
+   * @returns {string} The prefix.
+   */
+  private _namespacePrefix(): string {
+    return `superlru:${this.namespace}:`
+  }
+
+  /**
+   * Returns the storage adapter for a namespace-scoped operation, which needs
+   * both a namespace and remote storage.
+   * @private
+   * @param {string} operation - Name of the operation, for error messages.
+   * @returns {StorageAdapter} The storage adapter.
+   */
+  private _namespaced(operation: string): StorageAdapter {
+    if (this.namespace == null) {
+      throw new Error(`${operation} requires a namespace to be defined`)
+    }
+    if (!this.writeThrough || !this.storage) {
+      throw new Error(`${operation} requires writeThrough to be enabled`)
+    }
+    return this.storage
+  }
+
+  /**
+   * Lists the remote keys that start with a prefix a page at a time, with the
+   * adapter's scan, or with keys as a single page when it has none. Every page
+   * is read through _remote; a page that fails with failures ignored ends the scan.
+   * @private
+   * @param {StorageAdapter} storage - The storage adapter.
+   * @param {string} prefix - The key prefix.
+   * @returns {AsyncGenerator<string[]>} The pages of remote keys.
+   */
+  private async *_scan(storage: StorageAdapter, prefix: string): AsyncGenerator<string[]> {
+    let cursor: string | null = null
+    do {
+      const from: string | null = cursor
+      const page: ScanPage = await this._remote(
+        async () => (storage.scan ? storage.scan(prefix, from) : { keys: await storage.keys(prefix), cursor: null }),
+        { keys: [], cursor: null }
+      )
+      yield page.keys
+      cursor = page.cursor
+    } while (cursor != null)
+  }
+
+  /**
+   * Calls remote storage through the circuit breaker and applies the failure
+   * policy: with 'throw' errors reach the caller, with 'ignore' they are
+   * reported through the `remoteError` event and the fallback is returned, so
+   * the cache carries on memory-only. Calls rejected by an open circuit are
+   * not reported again.
+   * @private
+   * @param {() => Promise<T>} operation - The remote call.
+   * @param {T} fallback - Result used when the call fails and failures are ignored.
+   * @returns {Promise<T>} The call's result, or the fallback.
+   */
+  private async _remote<T>(operation: () => Promise<T>, fallback: T): Promise<T> {
+    if (this.breaker && !this.breaker.allow()) {
+      if (this.failurePolicy === 'ignore') return fallback
+      throw new Error('remote storage is unavailable, the circuit breaker is open')
+    }
+    try {
+      const result = await this._measure(operation)
+      this.breaker?.success()
+      return result
+    } catch (error) {
+      this.breaker?.failure()
+      if (this.failurePolicy === 'throw') throw error
+      this.emit('remoteError', error as Error)
+      return fallback
+    }
+  }
+
+  /**
+   * Times a remote call and counts it as a remote error if it fails.
+   * @private
+   * @param {() => Promise<T>} operation - The remote call.
+   * @returns {Promise<T>} The call's result.
+   */
+  private async _measure<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await this.latency.remote.timeAsync(operation)
+    } catch (error) {
+      this.totals.remote.errors++
+      throw error
+    }
+  }
+
+  /**
+   * Tells other instances to drop their in-memory copies of some keys.
+   * Failures are reported through the `invalidationError` event.
+   * @private
+   * @param {string[]} remoteKeys - Remote keys of the changed entries.
+   */
+  private _publish(remoteKeys: string[]): void {
+    if (!this.bus || remoteKeys.length === 0) return
+    this.bus
+      .publish({ source: this.instanceId, keys: remoteKeys })
+      .catch((error) => this.emit('invalidationError', error, remoteKeys))
+  }
+
+  /**
+   * Drops the in-memory entries named by another instance's invalidation
+   * message, without writing anything back to remote storage. Messages that
+   * are not shaped like ours are ignored.
+   * @private
+   * @param {InvalidationMessage} message - The invalidation message.
+   */
+  private _invalidate(message: InvalidationMessage): void {
+    const { source, keys } = (message ?? {}) as Partial<InvalidationMessage>
+    if (typeof source !== 'string' || !Array.isArray(keys) || source === this.instanceId) return
+    for (const remoteKey of keys) {
+      const ids = this.remoteIndex!.get(remoteKey)
+      if (!ids) continue
+      // copied, since discarding an entry removes it from the set
+      for (const id of Array.from(ids)) {
+        const node = this.cache.get(id)
+        if (node) {
+          this.policy.remove(node)
+          this._discard(node, 'invalidated')
+        }
+      }
+    }
+  }
+
+  /**
+   * Replaces a remote value while keeping its expiry. A key with a queued
+   * write-behind operation is replaced in the queue instead, otherwise the
+   * queued write would overwrite the new value once it is flushed.
+   * @private
+   * @param {string} remoteKey - The remote key.
+   * @param {string} value - The new remote value.
+   */
+  private async _replaceRemote(remoteKey: string, value: string): Promise<void> {
+    const queued = this.queue?.peek(remoteKey)
+    if (this.queue && queued) {
+      // a queued delete stays queued
+      if (queued.value === null) return
+      const remaining = queued.expires > 0 ? Math.max(queued.expires - Date.now(), 1) : 0
+      await this.queue.set(remoteKey, value, remaining)
+      return
+    }
+    await this.storage!.set(remoteKey, value, { keepTtl: true })
+  }
+
+  /**
+   * Converts a stored value to the string written to remote storage: an
+   * envelope holding the value and the key it belongs to, since remote keys
+   * are hashes. Values kept as-is in memory are serialized; compressed or
+   * encrypted values already are strings. With encryption the key is
+   * encrypted as well.
+   * @private
+   * @param {K} key - The cache key.
+   * @param {string | V} storedValue - The stored value.
+   * @param {string[] | null} tags - The entry's tags.
+   * @returns {string} The remote value.
+   */
+  private _toRemote(key: K, storedValue: string | V, tags: string[] | null): string {
+    const v = this.compress || this.encrypt ? (storedValue as string) : this.serializer.serialize(storedValue)
+    let k = this.serializer.serialize(key)
+    if (this.encrypt) {
+      k = `${this.activeKeyId}:${encryptValue(k, this._encryption()).encrypted}`
+    }
+    const envelope: RemoteEnvelope = { [ENVELOPE_MARKER]: ENVELOPE_VERSION, k, v }
+    if (tags) {
+      envelope.t = tags
+    }
+    return JSON.stringify(envelope)
+  }
+
+  /**
+   * Opens the envelope of a remote value. Values written before keys were
+   * recorded are the bare value and come back without a key.
+   * @private
+   * @param {string} remote - The remote value.
+   * @returns {{ k: string | null; v: string; t: string[] | null }} The encoded key, or null for a bare value, the value and the tags.
+   */
+  private _unwrap(remote: string): { k: string | null; v: string; t: string[] | null } {
+    if (remote.startsWith(`{"${ENVELOPE_MARKER}":`)) {
+      const envelope = JSON.parse(remote) as RemoteEnvelope
+      if (envelope[ENVELOPE_MARKER] !== ENVELOPE_VERSION) {
+        throw new Error(`unsupported remote value version ${envelope[ENVELOPE_MARKER]}`)
+      }
+      return { k: envelope.k, v: envelope.v, t: envelope.t ?? null }
+    }
+    return { k: null, v: remote, t: null }
+  }
+
+  /**
+   * Decodes the key recorded in a remote envelope.
+   * @private
+   * @param {string} k - The encoded key.
+   * @returns {K} The cache key.
+   */
+  private _envelopeKey(k: string): K {
+    if (this.encrypt) {
+      const { keyId, encrypted } = parseKeyId(k)
+      k = decryptValue<string>(encrypted, 'string', this._encryption(keyId ?? undefined))
+    }
+    return this.serializer.deserialize(k) as K
+  }
+
+  /**
+   * Converts a value read from remote storage back into the original value
+   * and the form it is stored in memory. Earlier versions wrote plain
+   * strings as they are, so a bare value that does not deserialize is
+   * returned as it is.
+   * @private
+   * @param {string} remote - The remote value.
+   * @returns {{ value: V; stored: string | V; tags: string[] | null }} The original value, its stored form and its tags.
+   */
+  private _fromRemote(remote: string): { value: V; stored: string | V; tags: string[] | null } {
+    const { k, v, t } = this._unwrap(remote)
+    if (this.compress || this.encrypt) {
+      return { value: this.valueOut(v) as V, stored: v, tags: t }
     }
-    if (this.encrypt && typeof data === 'string') {
-      data = decryptValue(data, this.valueType as string, this.encryption)
+    let value: V
+    try {
+      value = this.serializer.deserialize(v) as V
+    } catch (e) {
+      if (k != null) throw e
+      value = v as unknown as V
     }
-    return data as V
+    return { value, stored: value, tags: t }
   }
 }
 
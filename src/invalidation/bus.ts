@@ -0,0 +1,44 @@
+/**
+ * Announces that an instance changed some keys. Keys are remote keys, the
+ * hashed and namespaced form shared by every instance.
+ */
+export type InvalidationMessage = {
+  source: string // ID of the publishing instance, used to ignore its own messages
+  keys: string[]
+}
+
+/**
+ * Receives invalidation messages.
+ */
+export type InvalidationListener = (message: InvalidationMessage) => void
+
+/**
+ * Receives errors of a subscription's connection after it was set up.
+ */
+export type InvalidationErrorListener = (error: Error) => void
+
+/**
+ * A channel over which SuperLRU instances tell each other to drop in-memory
+ * copies of keys they changed. Every subscriber receives every message,
+ * including the ones it published itself.
+ */
+export interface InvalidationBus {
+  /**
+   * Sends a message to every subscriber.
+   * @param {InvalidationMessage} message - The message.
+   */
+  publish(message: InvalidationMessage): Promise<void>
+
+  /**
+   * Starts delivering messages to a listener.
+   * @param {InvalidationListener} listener - The listener.
+   * @param {InvalidationErrorListener} [onError] - Called when the subscription's connection fails later on.
+   * @param {AbortSignal} [signal] - Gives up a subscription that is still being set up.
+   * @returns {Promise<() => Promise<void>>} Resolves with a function that stops the delivery.
+   */
+  subscribe(
+    listener: InvalidationListener,
+    onError?: InvalidationErrorListener,
+    signal?: AbortSignal
+  ): Promise<() => Promise<void>>
+}
@@ -0,0 +1,22 @@
+import { InvalidationBus, InvalidationListener, InvalidationMessage } from './bus'
+
+/**
+ * An in-process InvalidationBus. Share one instance between caches to
+ * invalidate across them, or to stand in for Redis pub/sub in tests.
+ */
+export class LocalInvalidationBus implements InvalidationBus {
+  private listeners: Set<InvalidationListener> = new Set()
+
+  public async publish(message: InvalidationMessage): Promise<void> {
+    for (const listener of Array.from(this.listeners)) {
+      listener({ source: message.source, keys: message.keys.slice() })
+    }
+  }
+
+  public async subscribe(listener: InvalidationListener): Promise<() => Promise<void>> {
+    this.listeners.add(listener)
+    return async () => {
+      this.listeners.delete(listener)
+    }
+  }
+}
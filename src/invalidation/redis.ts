@@ -0,0 +1,60 @@
+import { RedisClientType } from 'redis'
+import { InvalidationBus, InvalidationErrorListener, InvalidationListener, InvalidationMessage } from './bus'
+
+/**
+ * An InvalidationBus over Redis pub/sub. Messages are JSON on a single
+ * channel; each subscription uses its own connection, duplicated from the
+ * client, because a subscribed Redis connection cannot run other commands.
+ */
+export class RedisInvalidationBus implements InvalidationBus {
+  private client: RedisClientType
+  private channel: string
+
+  /**
+   * @param {RedisClientType} client - Client used to publish and duplicated to subscribe.
+   * @param {object} [options] - Configuration options.
+   * @param {string} [options.channel='superlru:invalidation'] - The pub/sub channel.
+   */
+  constructor(client: RedisClientType, { channel = 'superlru:invalidation' }: { channel?: string } = {}) {
+    this.client = client
+    this.channel = channel
+  }
+
+  public async publish(message: InvalidationMessage): Promise<void> {
+    await this.client.publish(this.channel, JSON.stringify(message))
+  }
+
+  public async subscribe(
+    listener: InvalidationListener,
+    onError?: InvalidationErrorListener,
+    signal?: AbortSignal
+  ): Promise<() => Promise<void>> {
+    signal?.throwIfAborted()
+    const subscriber = this.client.duplicate()
+    // without a listener, an error event would crash the process
+    subscriber.on('error', (error: Error) => onError?.(error))
+    // the connection may be retried forever, so aborting drops it instead of waiting for it
+    const abort = () => subscriber.disconnect().catch(() => undefined)
+    signal?.addEventListener('abort', abort)
+    try {
+      await subscriber.connect()
+      signal?.throwIfAborted()
+      await subscriber.subscribe(this.channel, (raw: string) => {
+        let message: InvalidationMessage
+        try {
+          message = JSON.parse(raw)
+        } catch (e) {
+          // not one of ours, someone else is publishing on the channel
+          return
+        }
+        listener(message)
+      })
+    } finally {
+      signal?.removeEventListener('abort', abort)
+    }
+    return async () => {
+      await subscriber.unsubscribe(this.channel)
+      await subscriber.quit()
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import { IncomingMessage, ServerResponse } from 'http'
+import { CacheCounters } from './index'
+
+/**
+ * Content type of the Prometheus text exposition format.
+ */
+const CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+/**
+ * Anything exposing running cache totals, such as a SuperLRU instance.
+ */
+export interface MetricsSource {
+  counters(): CacheCounters
+}
+
+/**
+ * Metrics registry options.
+ */
+export type MetricsOptions = {
+  prefix?: string // prepended to every metric name
+}
+
+/**
+ * A metric family: its help text, type and samples.
+ */
+type Family = {
+  name: string
+  help: string
+  type: 'counter' | 'gauge' | 'summary'
+  samples: Array<{ suffix?: string; labels: { [name: string]: string }; value: number }>
+}
+
+/**
+ * Escapes a label value for the exposition format.
+ * @param {string} value - The label value.
+ * @returns {string} The escaped value.
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+/**
+ * Collects the metrics of several caches, labelled by cache name, and
+ * renders them in the Prometheus text exposition format. Counters come from
+ * the caches' running totals, so scraping never resets anything and calling
+ * stats(true) elsewhere does not disturb them.
+ */
+export class MetricsRegistry {
+  public readonly contentType: string = CONTENT_TYPE
+  private prefix: string
+  private sources: Map<string, MetricsSource> = new Map()
+
+  /**
+   * @param {MetricsOptions} [options] - Registry options.
+   * @param {string} [options.prefix='superlru'] - Prepended to every metric name.
+   */
+  constructor({ prefix = 'superlru' }: MetricsOptions = {}) {
+    this.prefix = prefix
+  }
+
+  /**
+   * Adds a cache to the registry.
+   * @param {string} name - The cache name, used as the `cache` label.
+   * @param {MetricsSource} cache - The cache.
+   * @returns {() => void} Removes the cache from the registry again.
+   */
+  public register(name: string, cache: MetricsSource): () => void {
+    if (this.sources.has(name)) {
+      throw new Error(`a cache named "${name}" is already registered`)
+    }
+    this.sources.set(name, cache)
+    return () => {
+      if (this.sources.get(name) === cache) {
+        this.sources.delete(name)
+      }
+    }
+  }
+
+  /**
+   * Removes a cache from the registry.
+   * @param {string} name - The cache name.
+   * @returns {boolean} True if a cache was registered under the name.
+   */
+  public unregister(name: string): boolean {
+    return this.sources.delete(name)
+  }
+
+  /**
+   * Renders the metrics of every registered cache.
+   * @returns {string} The metrics in the Prometheus text exposition format.
+   */
+  public render(): string {
+    const families: Family[] = [
+      this._family('hits_total', 'counter', 'Reads served from memory.'),
+      this._family('misses_total', 'counter', 'Reads not found in memory.'),
+      this._family('sets_total', 'counter', 'Keys written.'),
+      this._family('deletes_total', 'counter', 'Keys removed explicitly.'),
+      this._family('evictions_total', 'counter', 'Entries removed or overwritten, by reason.'),
+      this._family('remote_hits_total', 'counter', 'Reads through to remote storage that found the key.'),
+      this._family('remote_misses_total', 'counter', 'Reads through to remote storage that did not find the key.'),
+      this._family('remote_errors_total', 'counter', 'Failed remote storage calls.'),
+      this._family('size', 'gauge', 'Entries in memory.'),
+      this._family('bytes', 'gauge', 'Stored size of the entries in memory, in bytes.'),
+      this._family('duration_seconds', 'summary', 'Time spent in compression, encryption and remote calls.')
+    ]
+    const [hits, misses, sets, deletes, evictions, remoteHits, remoteMisses, remoteErrors, size, bytes, duration] =
+      families
+    for (const [cache, source] of this.sources) {
+      const counters = source.counters()
+      const labels = { cache }
+      hits.samples.push({ labels, value: counters.hits })
+      misses.samples.push({ labels, value: counters.misses })
+      sets.samples.push({ labels, value: counters.sets })
+      deletes.samples.push({ labels, value: counters.deletes })
+      for (const [reason, value] of Object.entries(counters.evictions)) {
+        evictions.samples.push({ labels: { cache, reason }, value })
+      }
+      remoteHits.samples.push({ labels, value: counters.remote.hits })
+      remoteMisses.samples.push({ labels, value: counters.remote.misses })
+      remoteErrors.samples.push({ labels, value: counters.remote.errors })
+      size.samples.push({ labels, value: counters.size })
+      bytes.samples.push({ labels, value: counters.bytes })
+      for (const [operation, { count, total }] of Object.entries(counters.latency)) {
+        duration.samples.push({ suffix: '_sum', labels: { cache, operation }, value: total / 1000 })
+        duration.samples.push({ suffix: '_count', labels: { cache, operation }, value: count })
+      }
+    }
+    return families.map((family) => this._render(family)).join('')
+  }
+
+  /**
+   * Creates a request handler for node's http module serving the metrics.
+   * @returns {(request: IncomingMessage, response: ServerResponse) => void} The handler.
+   */
+  public handler(): (request: IncomingMessage, response: ServerResponse) => void {
+    return (request, response) => {
+      if (request.method !== 'GET' && request.method !== 'HEAD') {
+        response.writeHead(405, { Allow: 'GET, HEAD' })
+        response.end()
+        return
+      }
+      const body = this.render()
+      response.writeHead(200, { 'Content-Type': this.contentType, 'Content-Length': Buffer.byteLength(body) })
+      response.end(request.method === 'HEAD' ? undefined : body)
+    }
+  }
+
+  /**
+   * Creates an empty metric family.
+   * @private
+   * @param {string} name - The name without the prefix.
+   * @param {Family['type']} type - The metric type.
+   * @param {string} help - The help text.
+   * @returns {Family} The family.
+   */
+  private _family(name: string, type: Family['type'], help: string): Family {
+    return { name: `${this.prefix}_${name}`, help, type, samples: [] }
+  }
+
+  /**
+   * Renders a metric family with its HELP and TYPE lines.
+   * @private
+   * @param {Family} family - The family.
+   * @returns {string} The rendered lines.
+   */
+  private _render({ name, help, type, samples }: Family): string {
+    let text = `# HELP ${name} ${help}\n# TYPE ${name} ${type}\n`
+    for (const { suffix = '', labels, value } of samples) {
+      const rendered = Object.entries(labels)
+        .map(([label, labelValue]) => `${label}="${escapeLabel(labelValue)}"`)
+        .join(',')
+      text += `${name}${suffix}{${rendered}} ${value}\n`
+    }
+    return text
+  }
+}
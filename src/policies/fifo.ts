@@ -0,0 +1,38 @@
+import { EvictionPolicy, NodeList, PolicyNode } from './policy'
+
+/**
+ * First in, first out: entries are evicted in insertion order, reads and
+ * overwrites do not change it.
+ * @template K - Type of the key.
+ */
+export class FifoPolicy<K> implements EvictionPolicy<K> {
+  private list: NodeList<K> = new NodeList()
+
+  public add(node: PolicyNode<K>): void {
+    this.list.push(node)
+  }
+
+  public touch(): void {}
+
+  public update(): void {}
+
+  public remove(node: PolicyNode<K>): void {
+    this.list.remove(node)
+  }
+
+  public victim(): PolicyNode<K> | null {
+    return this.list.tail
+  }
+
+  public nodes(): Iterable<PolicyNode<K>> {
+    return this.list.nodes()
+  }
+
+  public rnodes(): Iterable<PolicyNode<K>> {
+    return this.list.rnodes()
+  }
+
+  public clear(): void {
+    this.list.clear()
+  }
+}
@@ -0,0 +1,132 @@
+import { EvictionPolicy, NodeList, PolicyNode } from './policy'
+
+/**
+ * The entries read the same number of times, most recently used at the head.
+ */
+class FrequencyBucket<K> extends NodeList<K> {
+  public frequency: number
+  public lower: FrequencyBucket<K> | null = null
+  public higher: FrequencyBucket<K> | null = null
+
+  /**
+   * @param {number} frequency - Accesses of every entry in the bucket.
+   */
+  constructor(frequency: number) {
+    super()
+    this.frequency = frequency
+  }
+}
+
+/**
+ * Least frequently used: evicts the entry with the fewest accesses, the least
+ * recently used one among ties. The newest entry is spared until another one
+ * arrives, so it is not evicted by the very write that added it. Entries sit
+ * in buckets per access count, chained in ascending order, so an access only
+ * moves an entry to the neighbouring bucket and every operation is O(1).
+ * @template K - Type of the key.
+ */
+export class LfuPolicy<K> implements EvictionPolicy<K> {
+  private lowest: FrequencyBucket<K> | null = null
+  private highest: FrequencyBucket<K> | null = null
+  private newest: PolicyNode<K> | null = null
+
+  public add(node: PolicyNode<K>): void {
+    if (!this.lowest || this.lowest.frequency !== 1) {
+      this._link(new FrequencyBucket(1), null)
+    }
+    this.lowest!.push(node)
+    this.newest = node
+  }
+
+  public touch(node: PolicyNode<K>): void {
+    const bucket = node.list as FrequencyBucket<K>
+    let next = bucket.higher
+    if (!next || next.frequency !== bucket.frequency + 1) {
+      next = this._link(new FrequencyBucket(bucket.frequency + 1), bucket)
+    }
+    this.remove(node)
+    next.push(node)
+  }
+
+  public update(node: PolicyNode<K>): void {
+    this.touch(node)
+  }
+
+  public remove(node: PolicyNode<K>): void {
+    const bucket = node.list as FrequencyBucket<K>
+    bucket.remove(node)
+    if (node === this.newest) {
+      this.newest = null
+    }
+    if (bucket.size === 0) {
+      this._unlink(bucket)
+    }
+  }
+
+  public victim(): PolicyNode<K> | null {
+    if (!this.lowest) return null
+    if (this.lowest.tail === this.newest && this.lowest.higher) {
+      return this.lowest.higher.tail
+    }
+    return this.lowest.tail
+  }
+
+  public *nodes(): Generator<PolicyNode<K>> {
+    for (let bucket = this.highest; bucket; bucket = bucket.lower) {
+      yield* bucket.nodes()
+    }
+  }
+
+  public *rnodes(): Generator<PolicyNode<K>> {
+    for (let bucket = this.lowest; bucket; bucket = bucket.higher) {
+      yield* bucket.rnodes()
+    }
+  }
+
+  public clear(): void {
+    this.lowest = null
+    this.highest = null
+    this.newest = null
+  }
+
+  /**
+   * Chains a bucket in above another one.
+   * @private
+   * @param {FrequencyBucket<K>} bucket - The new bucket.
+   * @param {FrequencyBucket<K> | null} lower - The bucket below it, or null to make it the lowest.
+   * @returns {FrequencyBucket<K>} The new bucket.
+   */
+  private _link(bucket: FrequencyBucket<K>, lower: FrequencyBucket<K> | null): FrequencyBucket<K> {
+    bucket.lower = lower
+    bucket.higher = lower ? lower.higher : this.lowest
+    if (bucket.higher) {
+      bucket.higher.lower = bucket
+    } else {
+      this.highest = bucket
+    }
+    if (lower) {
+      lower.higher = bucket
+    } else {
+      this.lowest = bucket
+    }
+    return bucket
+  }
+
+  /**
+   * Takes an empty bucket out of the chain.
+   * @private
+   * @param {FrequencyBucket<K>} bucket - The bucket.
+   */
+  private _unlink(bucket: FrequencyBucket<K>): void {
+    if (bucket.lower) {
+      bucket.lower.higher = bucket.higher
+    } else {
+      this.lowest = bucket.higher
+    }
+    if (bucket.higher) {
+      bucket.higher.lower = bucket.lower
+    } else {
+      this.highest = bucket.lower
+    }
+  }
+}
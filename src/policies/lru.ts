@@ -0,0 +1,42 @@
+import { EvictionPolicy, NodeList, PolicyNode } from './policy'
+
+/**
+ * Least recently used: reads and overwrites move an entry to the head of the
+ * list and the tail is evicted.
+ * @template K - Type of the key.
+ */
+export class LruPolicy<K> implements EvictionPolicy<K> {
+  private list: NodeList<K> = new NodeList()
+
+  public add(node: PolicyNode<K>): void {
+    this.list.push(node)
+  }
+
+  public touch(node: PolicyNode<K>): void {
+    this.list.moveToHead(node)
+  }
+
+  public update(node: PolicyNode<K>): void {
+    this.list.moveToHead(node)
+  }
+
+  public remove(node: PolicyNode<K>): void {
+    this.list.remove(node)
+  }
+
+  public victim(): PolicyNode<K> | null {
+    return this.list.tail
+  }
+
+  public nodes(): Iterable<PolicyNode<K>> {
+    return this.list.nodes()
+  }
+
+  public rnodes(): Iterable<PolicyNode<K>> {
+    return this.list.rnodes()
+  }
+
+  public clear(): void {
+    this.list.clear()
+  }
+}
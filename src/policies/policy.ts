@@ -0,0 +1,161 @@
+/**
+ * The part of a cache entry an eviction policy works with. Policies link
+ * entries into their own lists through prev, next and list, so every
+ * operation stays O(1) without a second lookup structure.
+ * @template K - Type of the key.
+ */
+export interface PolicyNode<K> {
+  key: K
+  prev: PolicyNode<K> | null
+  next: PolicyNode<K> | null
+  list: NodeList<K> | null // the list the node is linked into
+}
+
+/**
+ * Decides which entry leaves the cache when it is over capacity. The cache
+ * reports every insertion, read, overwrite and removal; the policy keeps the
+ * entries ordered accordingly.
+ * @template K - Type of the key.
+ */
+export interface EvictionPolicy<K> {
+  /**
+   * Tracks a new entry.
+   * @param {PolicyNode<K>} node - The entry.
+   */
+  add(node: PolicyNode<K>): void
+
+  /**
+   * Records a read of an entry.
+   * @param {PolicyNode<K>} node - The entry.
+   */
+  touch(node: PolicyNode<K>): void
+
+  /**
+   * Records that an entry's value was replaced.
+   * @param {PolicyNode<K>} node - The entry.
+   */
+  update(node: PolicyNode<K>): void
+
+  /**
+   * Stops tracking an entry, whatever the reason it leaves the cache.
+   * @param {PolicyNode<K>} node - The entry.
+   */
+  remove(node: PolicyNode<K>): void
+
+  /**
+   * Picks the entry to evict next, without removing it; the cache calls remove.
+   * @returns {PolicyNode<K> | null} The entry, or null if there are none.
+   */
+  victim(): PolicyNode<K> | null
+
+  /**
+   * Iterates over the entries from the most to the least worth keeping.
+   * @returns {Iterable<PolicyNode<K>>} The entries.
+   */
+  nodes(): Iterable<PolicyNode<K>>
+
+  /**
+   * Iterates over the entries from the least to the most worth keeping.
+   * @returns {Iterable<PolicyNode<K>>} The entries.
+   */
+  rnodes(): Iterable<PolicyNode<K>>
+
+  /**
+   * Stops tracking every entry.
+   */
+  clear(): void
+}
+
+/**
+ * A doubly-linked list of policy nodes, newest at the head.
+ * @template K - Type of the key.
+ */
+export class NodeList<K> {
+  public head: PolicyNode<K> | null = null
+  public tail: PolicyNode<K> | null = null
+  public size: number = 0
+
+  /**
+   * Links a node in at the head of the list.
+   * @param {PolicyNode<K>} node - The node, not linked into any list.
+   */
+  public push(node: PolicyNode<K>): void {
+    node.prev = null
+    node.next = this.head
+    node.list = this
+    if (this.head) {
+      this.head.prev = node
+    }
+    this.head = node
+    if (!this.tail) {
+      this.tail = node
+    }
+    this.size++
+  }
+
+  /**
+   * Unlinks a node from the list.
+   * @param {PolicyNode<K>} node - A node of this list.
+   */
+  public remove(node: PolicyNode<K>): void {
+    if (node.prev) {
+      node.prev.next = node.next
+    } else {
+      this.head = node.next
+    }
+    if (node.next) {
+      node.next.prev = node.prev
+    } else {
+      this.tail = node.prev
+    }
+    node.prev = null
+    node.next = null
+    node.list = null
+    this.size--
+  }
+
+  /**
+   * Moves a node of this list to its head.
+   * @param {PolicyNode<K>} node - A node of this list.
+   */
+  public moveToHead(node: PolicyNode<K>): void {
+    if (this.head === node) return
+    this.remove(node)
+    this.push(node)
+  }
+
+  /**
+   * Iterates from head to tail. The caller may move or remove the current node.
+   * @returns {Generator<PolicyNode<K>>} The nodes.
+   */
+  public *nodes(): Generator<PolicyNode<K>> {
+    let node = this.head
+    while (node) {
+      const next: PolicyNode<K> | null = node.next
+      yield node
+      node = next
+    }
+  }
+
+  /**
+   * Iterates from tail to head. The caller may move or remove the current node.
+   * @returns {Generator<PolicyNode<K>>} The nodes.
+   */
+  public *rnodes(): Generator<PolicyNode<K>> {
+    let node = this.tail
+    while (node) {
+      const prev: PolicyNode<K> | null = node.prev
+      yield node
+      node = prev
+    }
+  }
+
+  /**
+   * Empties the list.
+   */
+  public clear(): void {
+    this.head = null
+    this.tail = null
+    this.size = 0
+  }
+}
@@ -0,0 +1,128 @@
+import { canonicalKeySerializer } from '../serializer'
+
+/**
+ * Rows of counters in the sketch; an estimate is the minimum across rows.
+ */
+const DEPTH = 4
+
+/**
+ * Counters saturate at this value, the largest a 4-bit counter holds.
+ */
+const MAX_COUNT = 15
+
+/**
+ * Upper bound on the counters per row, so a huge or unbounded cache does not
+ * allocate a huge sketch.
+ */
+const MAX_WIDTH = 1 << 22
+
+/**
+ * 32-bit FNV-1a hash.
+ * @param {string} text - The text to hash.
+ * @returns {number} The unsigned hash.
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * A count-min sketch estimating how often keys were seen recently, in a fixed
+ * amount of memory. Rows are four times as wide as the capacity to keep
+ * collisions rare. Counters are capped at 15 and all halved once the number
+ * of increments reaches ten times the capacity, so old popularity fades away.
+ * @template K - Type of the key.
+ */
+export class FrequencySketch<K> {
+  private table: Uint8Array
+  private mask: number
+  private additions: number = 0
+  private sampleSize: number
+
+  /**
+   * @param {number} capacity - Expected number of distinct keys worth tracking.
+   */
+  constructor(capacity: number) {
+    const tracked = Math.max(16, Math.min(capacity, MAX_WIDTH / 4))
+    let width = 16
+    while (width < tracked * 4) width *= 2
+    this.table = new Uint8Array(width * DEPTH)
+    this.mask = width - 1
+    this.sampleSize = Math.ceil(tracked) * 10
+  }
+
+  /**
+   * Estimates how often a key was seen.
+   * @param {K} key - The key.
+   * @returns {number} The estimate, between 0 and 15.
+   */
+  public frequency(key: K): number {
+    const [hash, step] = this._hash(key)
+    let frequency = MAX_COUNT
+    for (let row = 0; row < DEPTH; row++) {
+      frequency = Math.min(frequency, this.table[this._index(hash, step, row)])
+    }
+    return frequency
+  }
+
+  /**
+   * Records a sighting of a key.
+   * @param {K} key - The key.
+   */
+  public increment(key: K): void {
+    const [hash, step] = this._hash(key)
+    for (let row = 0; row < DEPTH; row++) {
+      const index = this._index(hash, step, row)
+      if (this.table[index] < MAX_COUNT) this.table[index]++
+    }
+    if (++this.additions >= this.sampleSize) {
+      this._age()
+    }
+  }
+
+  /**
+   * Forgets every sighting.
+   */
+  public clear(): void {
+    this.table.fill(0)
+    this.additions = 0
+  }
+
+  /**
+   * Hashes a key twice; the counter positions in the rows are derived from both.
+   * @private
+   * @param {K} key - The key.
+   * @returns {[number, number]} The hash and an odd step added per row.
+   */
+  private _hash(key: K): [number, number] {
+    const hash = fnv1a(canonicalKeySerializer(key))
+    return [hash, (Math.imul(hash ^ (hash >>> 16), 0x45d9f3b) >>> 0) | 1]
+  }
+
+  /**
+   * Returns the position of a key's counter in a row.
+   * @private
+   * @param {number} hash - The key's hash.
+   * @param {number} step - The key's step.
+   * @param {number} row - The row.
+   * @returns {number} The table index.
+   */
+  private _index(hash: number, step: number, row: number): number {
+    return row * (this.mask + 1) + ((hash + row * step) & this.mask)
+  }
+
+  /**
+   * Halves every counter.
+   * @private
+   */
+  private _age(): void {
+    for (let i = 0; i < this.table.length; i++) {
+      this.table[i] >>= 1
+    }
+    this.additions = Math.floor(this.additions / 2)
+  }
+}
@@ -0,0 +1,110 @@
+import { EvictionPolicy, NodeList, PolicyNode } from './policy'
+import { FrequencySketch } from './sketch'
+
+/**
+ * W-TinyLFU tuning options.
+ */
+export type TinyLfuOptions = {
+  capacity: number // maximum number of entries in the cache
+  windowRatio?: number // share of the capacity for the admission window
+  protectedRatio?: number // share of the main space for entries read more than once
+}
+
+/**
+ * Window TinyLFU. New entries go to a small LRU window; entries pushed out of
+ * the window compete for a place in the main space, a segmented LRU, against
+ * its next victim, and only the one a frequency sketch has seen more often
+ * stays. A burst of one-off keys, such as a scan, therefore cycles through
+ * the window without displacing the popular entries in the main space.
+ * @template K - Type of the key.
+ */
+export class TinyLfuPolicy<K> implements EvictionPolicy<K> {
+  private window: NodeList<K> = new NodeList()
+  private probation: NodeList<K> = new NodeList()
+  private protectedList: NodeList<K> = new NodeList()
+  private windowSize: number
+  private protectedSize: number
+  private sketch: FrequencySketch<K>
+  private candidate: PolicyNode<K> | null = null
+
+  /**
+   * @param {TinyLfuOptions} options - Tuning options.
+   * @param {number} options.capacity - Maximum number of entries in the cache.
+   * @param {number} [options.windowRatio=0.01] - Share of the capacity for the admission window.
+   * @param {number} [options.protectedRatio=0.8] - Share of the main space for entries read more than once.
+   */
+  constructor({ capacity, windowRatio = 0.01, protectedRatio = 0.8 }: TinyLfuOptions) {
+    this.windowSize = Math.max(1, Math.round(capacity * windowRatio))
+    this.protectedSize = Math.floor((capacity - this.windowSize) * protectedRatio)
+    this.sketch = new FrequencySketch(capacity)
+  }
+
+  public add(node: PolicyNode<K>): void {
+    this.sketch.increment(node.key)
+    this.window.push(node)
+    if (this.window.size > this.windowSize) {
+      // the window's oldest entry moves to the main space to compete for a place
+      const candidate = this.window.tail!
+      this.window.remove(candidate)
+      this.probation.push(candidate)
+      this.candidate = candidate
+    }
+  }
+
+  public touch(node: PolicyNode<K>): void {
+    this.sketch.increment(node.key)
+    if (node.list !== this.probation) {
+      node.list!.moveToHead(node)
+      return
+    }
+    this.probation.remove(node)
+    this.protectedList.push(node)
+    if (this.protectedList.size > this.protectedSize) {
+      const demoted = this.protectedList.tail!
+      this.protectedList.remove(demoted)
+      this.probation.push(demoted)
+    }
+  }
+
+  public update(node: PolicyNode<K>): void {
+    this.touch(node)
+  }
+
+  public remove(node: PolicyNode<K>): void {
+    node.list!.remove(node)
+    if (node === this.candidate) {
+      this.candidate = null
+    }
+  }
+
+  public victim(): PolicyNode<K> | null {
+    const candidate = this.candidate
+    this.candidate = null
+    const tail = this.probation.tail !== candidate ? this.probation.tail : null
+    const victim = tail ?? this.protectedList.tail
+    if (!candidate) return victim ?? this.window.tail
+    if (!victim) return candidate
+    // admit the candidate only if it has been seen more often than the entry it would replace
+    return this.sketch.frequency(candidate.key) > this.sketch.frequency(victim.key) ? victim : candidate
+  }
+
+  public *nodes(): Generator<PolicyNode<K>> {
+    yield* this.window.nodes()
+    yield* this.protectedList.nodes()
+    yield* this.probation.nodes()
+  }
+
+  public *rnodes(): Generator<PolicyNode<K>> {
+    yield* this.probation.rnodes()
+    yield* this.protectedList.rnodes()
+    yield* this.window.rnodes()
+  }
+
+  public clear(): void {
+    this.window.clear()
+    this.probation.clear()
+    this.protectedList.clear()
+    this.sketch.clear()
+    this.candidate = null
+  }
+}
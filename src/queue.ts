@@ -0,0 +1,317 @@
+import { StorageAdapter, StorageEntry } from './adapters/adapter'
+
+/**
+ * What happens when a write is queued while the write-behind queue is full:
+ * 'wait' holds the caller until a flush makes room, 'drop-oldest' discards the
+ * oldest queued write and 'throw' rejects the new write.
+ */
+export type OverflowPolicy = 'wait' | 'drop-oldest' | 'throw'
+
+/**
+ * Write-behind tuning options.
+ */
+export type WriteBehindOptions = {
+  flushInterval?: number // milliseconds between background flushes
+  batchSize?: number // writes per pipelined batch, reaching it also triggers a flush
+  maxQueueSize?: number // queued keys before the overflow policy applies
+  maxRetries?: number // times a failed write is retried before it is dropped
+  overflow?: OverflowPolicy
+}
+
+/**
+ * A queued write: a value to set, or null to delete the key.
+ */
+export type PendingWrite = {
+  value: string | null
+  expires: number // absolute expiry in epoch milliseconds, 0 for no expiry
+  attempts: number
+}
+
+/**
+ * Called with the error and the remote keys whose writes were given up on.
+ */
+type DropFunction = (error: Error, keys: string[]) => void
+
+/**
+ * Called with the remote keys of a batch once it has reached storage.
+ */
+type FlushFunction = (keys: string[]) => void
+
+/**
+ * Runs a storage call, for example through a circuit breaker.
+ */
+type GuardFunction = <T>(operation: () => Promise<T>) => Promise<T>
+
+/**
+ * Tells whether storage is known to be unavailable, for example because a
+ * circuit breaker is open.
+ */
+type HeldFunction = () => boolean
+
+/**
+ * Callbacks connecting the queue to its owner.
+ */
+export type QueueHooks = {
+  onDrop: DropFunction
+  onFlush?: FlushFunction
+  guard?: GuardFunction
+  held?: HeldFunction
+}
+
+/**
+ * Queues remote writes and deletes, coalesced per key so only the latest
+ * operation for a key is sent, and flushes them to storage in batches on an
+ * interval or once a batch fills up. Failed writes are put back in the queue,
+ * unless a newer write for the same key arrived meanwhile, and retried on the
+ * next flush; after maxRetries they are dropped and reported through hooks.onDrop.
+ * While hooks.held reports storage as unavailable, writes stay queued without
+ * being attempted, so an outage does not use up their retries.
+ */
+export class WriteBehindQueue {
+  private storage: StorageAdapter
+  private flushInterval: number
+  private batchSize: number
+  private maxQueueSize: number
+  private maxRetries: number
+  private overflow: OverflowPolicy
+  private hooks: QueueHooks
+  private pending: Map<string, PendingWrite> = new Map()
+  private inflight: Map<string, PendingWrite> = new Map()
+  private flushing: Promise<void> | null = null
+  private timer: NodeJS.Timeout | null
+
+  /**
+   * @param {StorageAdapter} storage - Storage the writes are flushed to.
+   * @param {WriteBehindOptions} options - Tuning options.
+   * @param {number} [options.flushInterval=100] - Milliseconds between background flushes.
+   * @param {number} [options.batchSize=100] - Writes per batch; a full batch is flushed right away.
+   * @param {number} [options.maxQueueSize=10000] - Queued keys before the overflow policy applies.
+   * @param {number} [options.maxRetries=3] - Retries for a failed write before it is dropped.
+   * @param {OverflowPolicy} [options.overflow='wait'] - Behaviour when the queue is full.
+   * @param {QueueHooks} hooks - Callbacks connecting the queue to its owner.
+   * @param {DropFunction} hooks.onDrop - Called when writes are dropped.
+   * @param {FlushFunction} [hooks.onFlush] - Called when a batch has been written.
+   * @param {GuardFunction} [hooks.guard] - Wraps every storage call; a rejection counts as a failed attempt.
+   * @param {HeldFunction} [hooks.held] - Holds the queued writes back while it returns true.
+   */
+  constructor(
+    storage: StorageAdapter,
+    {
+      flushInterval = 100,
+      batchSize = 100,
+      maxQueueSize = 10000,
+      maxRetries = 3,
+      overflow = 'wait'
+    }: WriteBehindOptions,
+    hooks: QueueHooks
+  ) {
+    this.storage = storage
+    this.flushInterval = flushInterval
+    this.batchSize = batchSize
+    this.maxQueueSize = maxQueueSize
+    this.maxRetries = maxRetries
+    this.overflow = overflow
+    this.hooks = hooks
+    this.timer = setInterval(() => this._flushInBackground(), flushInterval)
+    // a pending flush should not keep the process alive, call close() to drain
+    this.timer.unref()
+  }
+
+  /**
+   * The number of keys waiting to be written, including the batch being flushed.
+   */
+  public get length(): number {
+    let length = this.pending.size
+    for (const key of this.inflight.keys()) {
+      if (!this.pending.has(key)) length++
+    }
+    return length
+  }
+
+  /**
+   * Queues a value to be written, replacing any queued write for the key.
+   * @param {string} key - The remote key.
+   * @param {string} value - The remote value.
+   * @param {number} ttl - Time-to-live in milliseconds, 0 for no expiry.
+   * @returns {Promise<void>} Resolves once the write is queued.
+   */
+  public set(key: string, value: string, ttl: number): Promise<void> {
+    return this._enqueue(key, { value, expires: ttl > 0 ? Date.now() + ttl : 0, attempts: 0 })
+  }
+
+  /**
+   * Queues a key to be deleted, replacing any queued write for the key.
+   * @param {string} key - The remote key.
+   * @returns {Promise<void>} Resolves once the delete is queued.
+   */
+  public delete(key: string): Promise<void> {
+    return this._enqueue(key, { value: null, expires: 0, attempts: 0 })
+  }
+
+  /**
+   * Returns the latest write for a key that has not reached storage yet, so
+   * reads see queued writes instead of the older remote value.
+   * @param {string} key - The remote key.
+   * @returns {PendingWrite | undefined} The queued write, or undefined if there is none.
+   */
+  public peek(key: string): PendingWrite | undefined {
+    return this.pending.get(key) ?? this.inflight.get(key)
+  }
+
+  /**
+   * Writes everything queued so far to storage. Writes held back while
+   * storage is unavailable stay queued.
+   * @returns {Promise<void>} Resolves once the queue is empty or held.
+   */
+  public async flush(): Promise<void> {
+    while (this.flushing || (this.pending.size > 0 && !this._held())) {
+      await (this.flushing ?? this._flushBatch())
+    }
+  }
+
+  /**
+   * Drops every queued write that has not been sent yet, once the batch in
+   * flight, which cannot be recalled, has settled.
+   * @returns {Promise<void>} Resolves once the queue is empty.
+   */
+  public async discard(): Promise<void> {
+    await this.flushing
+    this.pending.clear()
+  }
+
+  /**
+   * Stops the background flushes and drains the queue. Writes still held
+   * back because storage is unavailable are dropped, nothing would flush them.
+   * @returns {Promise<void>} Resolves once the queue is empty.
+   */
+  public async close(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    await this.flush()
+    if (this.pending.size > 0) {
+      const dropped = Array.from(this.pending.keys())
+      this.pending.clear()
+      this.hooks.onDrop(new Error('remote storage is unavailable, queued writes were not flushed'), dropped)
+    }
+  }
+
+  /**
+   * Adds a write to the queue, applying the overflow policy if it is full.
+   * @private
+   * @param {string} key - The remote key.
+   * @param {PendingWrite} write - The write.
+   */
+  private async _enqueue(key: string, write: PendingWrite): Promise<void> {
+    while (!this.pending.has(key) && this.pending.size >= this.maxQueueSize) {
+      if (this.overflow === 'throw') {
+        throw new Error(`write-behind queue is full (${this.maxQueueSize} keys)`)
+      }
+      if (this.overflow === 'drop-oldest') {
+        const oldest = this.pending.keys().next().value as string
+        this.pending.delete(oldest)
+        this.hooks.onDrop(new Error(`write-behind queue is full (${this.maxQueueSize} keys)`), [oldest])
+        continue
+      }
+      if (this.flushing) {
+        await this.flushing
+      } else if (this._held()) {
+        await new Promise((resolve) => setTimeout(resolve, this.flushInterval))
+      } else {
+        await this._flushBatch()
+      }
+    }
+    // re-insert so the key moves to the back of the queue
+    this.pending.delete(key)
+    this.pending.set(key, write)
+    if (this.pending.size >= this.batchSize) {
+      this._flushInBackground()
+    }
+  }
+
+  /**
+   * Starts a flush unless one is already running.
+   * @private
+   */
+  private _flushInBackground(): void {
+    if (!this.flushing && this.pending.size > 0 && !this._held()) {
+      this._flushBatch()
+    }
+  }
+
+  /**
+   * Checks whether queued writes are held back because storage is unavailable.
+   * @private
+   * @returns {boolean} True if nothing should be sent now.
+   */
+  private _held(): boolean {
+    return this.hooks.held?.() ?? false
+  }
+
+  /**
+   * Sends the oldest batch of queued writes to storage, sets and deletes
+   * pipelined separately.
+   * @private
+   * @returns {Promise<void>} Resolves once the batch has been written or re-queued.
+   */
+  private _flushBatch(): Promise<void> {
+    const batch = new Map<string, PendingWrite>()
+    for (const [key, write] of this.pending) {
+      if (batch.size >= this.batchSize) break
+      batch.set(key, write)
+    }
+    for (const key of batch.keys()) {
+      this.pending.delete(key)
+    }
+    this.inflight = batch
+
+    const now = Date.now()
+    const sets: StorageEntry[] = []
+    const deletes: string[] = []
+    for (const [key, { value, expires }] of batch) {
+      // values that expired while queued are deleted rather than written
+      if (value === null || (expires > 0 && expires <= now)) {
+        deletes.push(key)
+      } else {
+        sets.push({ key, value, ttl: expires > 0 ? expires - now : 0 })
+      }
+    }
+    const write = () => Promise.all([this.storage.setMany(sets), this.storage.deleteMany(deletes)])
+    this.flushing = (this.hooks.guard ? this.hooks.guard(write) : write())
+      .then(
+        () => this.hooks.onFlush?.(Array.from(batch.keys())),
+        (error) => this._retry(batch, error)
+      )
+      .finally(() => {
+        this.inflight = new Map()
+        this.flushing = null
+      })
+    return this.flushing
+  }
+
+  /**
+   * Puts a failed batch back in the queue, dropping writes that were
+   * superseded meanwhile or have used up their retries.
+   * @private
+   * @param {Map<string, PendingWrite>} batch - The failed batch.
+   * @param {Error} error - The storage error.
+   */
+  private _retry(batch: Map<string, PendingWrite>, error: Error): void {
+    const dropped: string[] = []
+    const retries: Array<[string, PendingWrite]> = []
+    for (const [key, write] of batch) {
+      if (this.pending.has(key)) continue
+      if (write.attempts >= this.maxRetries) {
+        dropped.push(key)
+      } else {
+        retries.push([key, { ...write, attempts: write.attempts + 1 }])
+      }
+    }
+    // retried writes go to the front of the queue, ahead of newer keys
+    this.pending = new Map([...retries, ...this.pending])
+    if (dropped.length > 0) {
+      this.hooks.onDrop(error, dropped)
+    }
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Turns values into strings and back for compression, encryption and remote storage.
+ */
+export type Serializer = {
+  serialize(value: unknown): string
+  deserialize(text: string): unknown
+}
+
+/**
+ * Property marking a tagged value in the serialized JSON.
+ */
+const TAG = '$t'
+
+/**
+ * Typed array constructors that can be restored by name.
+ */
+const typedArrays: { [name: string]: new (buffer: ArrayBuffer) => ArrayBufferView } = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array
+}
+
+/**
+ * Checks whether a value is a plain object, as opposed to an array, null or a class instance.
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True for plain objects.
+ */
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+  if (value === null || typeof value !== 'object') return false
+  const proto = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
+}
+
+/**
+ * JSON.stringify replacer encoding values JSON cannot represent as tagged objects.
+ * Reads the original value from the holder because Date#toJSON and Buffer#toJSON
+ * run before the replacer sees the value.
+ * @param {string} key - The property being serialized.
+ * @param {unknown} value - The value after toJSON.
+ * @returns {unknown} The value to serialize.
+ */
+function replacer(this: any, key: string, value: unknown): unknown {
+  const raw = this[key]
+  if (raw === undefined) return { [TAG]: 'undefined' }
+  if (typeof raw === 'bigint') return { [TAG]: 'BigInt', v: raw.toString() }
+  if (typeof raw === 'number' && !Number.isFinite(raw)) return { [TAG]: 'Number', v: String(raw) }
+  if (raw instanceof Date) return { [TAG]: 'Date', v: isNaN(raw.getTime()) ? null : raw.toISOString() }
+  if (raw instanceof Map) return { [TAG]: 'Map', v: Array.from(raw.entries()) }
+  if (raw instanceof Set) return { [TAG]: 'Set', v: Array.from(raw.values()) }
+  if (raw instanceof RegExp) return { [TAG]: 'RegExp', v: [raw.source, raw.flags] }
+  if (Buffer.isBuffer(raw)) return { [TAG]: 'Buffer', v: raw.toString('base64') }
+  if (ArrayBuffer.isView(raw) && typedArrays[raw.constructor.name] != null) {
+    const bytes = Buffer.from(raw.buffer, raw.byteOffset, raw.byteLength)
+    return { [TAG]: raw.constructor.name, v: bytes.toString('base64') }
+  }
+  if (raw instanceof ArrayBuffer) return { [TAG]: 'ArrayBuffer', v: Buffer.from(raw).toString('base64') }
+  // escape plain objects that happen to use the tag property themselves
+  if (isPlainObject(value) && Object.prototype.hasOwnProperty.call(value, TAG)) {
+    return { [TAG]: 'Object', v: Object.entries(value) }
+  }
+  return value
+}
+
+/**
+ * Decodes a tagged object whose payload has already been revived.
+ * @param {string} tag - The tag naming the original type.
+ * @param {any} v - The revived payload.
+ * @returns {unknown} The original value.
+ */
+function untag(tag: string, v: any): unknown {
+  switch (tag) {
+    case 'undefined':
+      return undefined
+    case 'BigInt':
+      return BigInt(v)
+    case 'Number':
+      return Number(v)
+    case 'Date':
+      return new Date(v == null ? NaN : v)
+    case 'Map':
+      return new Map(v)
+    case 'Set':
+      return new Set(v)
+    case 'RegExp':
+      return new RegExp(v[0], v[1])
+    case 'Buffer':
+      return Buffer.from(v, 'base64')
+    case 'ArrayBuffer':
+      return new Uint8Array(Buffer.from(v, 'base64')).buffer
+    case 'Object':
+      return Object.fromEntries(v)
+  }
+  const TypedArray = typedArrays[tag]
+  if (TypedArray != null) {
+    // copy into a fresh, aligned buffer
+    return new TypedArray(new Uint8Array(Buffer.from(v, 'base64')).buffer)
+  }
+  throw new Error(`unknown serialized type "${tag}"`)
+}
+
+/**
+ * Restores tagged values in parsed JSON, depth first. A JSON.parse reviver
+ * cannot be used because returning undefined from it deletes the property.
+ * @param {any} value - The parsed JSON value.
+ * @returns {any} The revived value.
+ */
+function revive(value: any): any {
+  if (value === null || typeof value !== 'object') return value
+  if (Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) {
+      value[i] = revive(value[i])
+    }
+    return value
+  }
+  if (typeof value[TAG] === 'string') {
+    return untag(value[TAG], revive(value.v))
+  }
+  for (const key of Object.keys(value)) {
+    value[key] = revive(value[key])
+  }
+  return value
+}
+
+/**
+ * Default serializer. Produces plain JSON for JSON-compatible values and
+ * round-trips Date, Map, Set, BigInt, RegExp, Buffer, typed arrays, undefined
+ * and non-finite numbers, including nested combinations of these.
+ */
+export const defaultSerializer: Serializer = {
+  serialize(value: unknown): string {
+    return JSON.stringify(value, replacer)
+  },
+  deserialize(text: string): unknown {
+    return revive(JSON.parse(text))
+  }
+}
+
+/**
+ * Turns a cache key into the string that identifies it, in memory and in
+ * remote storage. Keys with the same serialization are the same key.
+ */
+export type KeySerializer = (key: unknown) => string
+
+/**
+ * JSON.stringify replacer tagging values JSON cannot represent, as replacer
+ * does, and sorting the properties of plain objects, so the order they were
+ * assigned in does not matter. Functions and symbols inside a key would be
+ * dropped silently and make different keys collide, so they are rejected.
+ * @param {string} key - The property being serialized.
+ * @param {unknown} value - The value after toJSON.
+ * @returns {unknown} The value to serialize.
+ */
+function canonicalReplacer(this: any, key: string, value: unknown): unknown {
+  const raw = this[key]
+  if (typeof raw === 'function' || typeof raw === 'symbol') {
+    throw new Error(`cannot serialize a key containing a ${typeof raw}`)
+  }
+  const replaced = replacer.call(this, key, value)
+  if (!isPlainObject(replaced)) return replaced
+  if (replaced !== value && replaced[TAG] === 'Object') {
+    // the escaped form of an object using the tag property lists its entries
+    const entries = (replaced.v as Array<[string, unknown]>).slice().sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return { [TAG]: 'Object', v: entries }
+  }
+  const sorted: { [key: string]: unknown } = {}
+  for (const name of Object.keys(replaced).sort()) {
+    sorted[name] = replaced[name]
+  }
+  return sorted
+}
+
+/**
+ * Canonical key serializer: the default serializer's JSON with the properties
+ * of plain objects in sorted order, so `{ a: 1, b: 2 }` and `{ b: 2, a: 1 }`
+ * are the same key while the string '1' and the number 1, a Date and its ISO
+ * string, or two Maps with different entries stay different keys. Keys that
+ * contain functions or symbols are rejected.
+ * @param {unknown} key - The key.
+ * @returns {string} The canonical string form.
+ */
+export const canonicalKeySerializer: KeySerializer = (key: unknown): string => {
+  if (typeof key === 'symbol' || typeof key === 'function') return String(key)
+  return JSON.stringify(key, canonicalReplacer)
+}
+
+/**
+ * Key serializer giving the remote keys of earlier versions for string and
+ * number keys: strings as they are and numbers in decimal, so the string '1'
+ * and the number 1 share a remote key. Other keys use canonicalKeySerializer.
+ * @param {unknown} key - The key.
+ * @returns {string} The string the remote key is derived from.
+ */
+export const legacyKeySerializer: KeySerializer = (key: unknown): string => {
+  if (typeof key === 'string') return key
+  if (typeof key === 'number') return String(key)
+  return canonicalKeySerializer(key)
+}
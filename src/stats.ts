@@ -0,0 +1,103 @@
+/**
+ * Number of recent samples percentiles are computed from.
+ */
+const SAMPLE_SIZE = 1024
+
+/**
+ * Time spent in an operation since the statistics were last flushed, in milliseconds.
+ * Percentiles are computed over the most recent samples.
+ */
+export type LatencyStats = {
+  count: number
+  total: number
+  p50: number
+  p90: number
+  p99: number
+}
+
+/**
+ * Records how long an operation takes. The count and total only ever grow;
+ * reset() moves the baseline that stats() reports from and drops the samples.
+ */
+export class LatencyTracker {
+  public count: number = 0
+  public total: number = 0
+  private samples: Float64Array = new Float64Array(SAMPLE_SIZE)
+  private length: number = 0
+  private next: number = 0 // position the next sample is written to, overwriting the oldest
+  private baseline = { count: 0, total: 0 }
+
+  /**
+   * Records one duration.
+   * @param {number} duration - The duration in milliseconds.
+   */
+  public record(duration: number): void {
+    this.count++
+    this.total += duration
+    this.samples[this.next] = duration
+    this.next = (this.next + 1) % SAMPLE_SIZE
+    this.length = Math.min(this.length + 1, SAMPLE_SIZE)
+  }
+
+  /**
+   * Runs a synchronous operation and records how long it took, even if it throws.
+   * @param {() => T} operation - The operation.
+   * @returns {T} The operation's result.
+   */
+  public time<T>(operation: () => T): T {
+    const start = process.hrtime.bigint()
+    try {
+      return operation()
+    } finally {
+      this.record(Number(process.hrtime.bigint() - start) / 1_000_000)
+    }
+  }
+
+  /**
+   * Runs an asynchronous operation and records how long it took to settle.
+   * @param {() => Promise<T>} operation - The operation.
+   * @returns {Promise<T>} The operation's result.
+   */
+  public async timeAsync<T>(operation: () => Promise<T>): Promise<T> {
+    const start = process.hrtime.bigint()
+    try {
+      return await operation()
+    } finally {
+      this.record(Number(process.hrtime.bigint() - start) / 1_000_000)
+    }
+  }
+
+  /**
+   * Returns the duration below which a share of the recent samples fall.
+   * @param {number} quantile - The share, between 0 and 1.
+   * @returns {number} The duration in milliseconds, 0 without samples.
+   */
+  public percentile(quantile: number): number {
+    if (this.length === 0) return 0
+    const sorted = this.samples.slice(0, this.length).sort()
+    return sorted[Math.max(0, Math.ceil(quantile * this.length) - 1)]
+  }
+
+  /**
+   * Summarises the durations recorded since the last reset.
+   * @returns {LatencyStats} The summary.
+   */
+  public stats(): LatencyStats {
+    return {
+      count: this.count - this.baseline.count,
+      total: this.total - this.baseline.total,
+      p50: this.percentile(0.5),
+      p90: this.percentile(0.9),
+      p99: this.percentile(0.99)
+    }
+  }
+
+  /**
+   * Starts a new period for stats(), keeping the running count and total.
+   */
+  public reset(): void {
+    this.baseline = { count: this.count, total: this.total }
+    this.length = 0
+    this.next = 0
+  }
+}
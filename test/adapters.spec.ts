@@ -0,0 +1,434 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { FileSystemAdapter, MemoryAdapter, RedisAdapter, StorageAdapter, SuperLRU, md5 } from '../src'
+
+describe('StorageAdapter implementations', () => {
+  let directory: string
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'superlru-'))
+  })
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe.each([
+    ['MemoryAdapter', () => new MemoryAdapter()],
+    ['FileSystemAdapter', () => new FileSystemAdapter({ directory: path.join(directory, md5(String(Math.random()))) })]
+  ])('%s', (_, createAdapter: () => StorageAdapter) => {
+    let adapter: StorageAdapter
+
+    beforeEach(() => {
+      adapter = createAdapter()
+    })
+
+    it('should set, get and delete values', async () => {
+      expect(await adapter.get('key1')).toBeNull()
+
+      await adapter.set('key1', 'value1')
+      expect(await adapter.get('key1')).toBe('value1')
+
+      await adapter.delete('key1')
+      expect(await adapter.get('key1')).toBeNull()
+      await expect(adapter.delete('key1')).resolves.toBeUndefined()
+    })
+
+    it('should handle keys that are not valid file names', async () => {
+      await adapter.set('superlru:ns/a b', 'value1')
+      expect(await adapter.get('superlru:ns/a b')).toBe('value1')
+    })
+
+    it('should expire values after their ttl', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+
+      await adapter.set('key1', 'value1', { ttl: 100 })
+      expect(await adapter.ttl('key1')).toBe(100)
+
+      now.mockReturnValue(1100)
+      expect(await adapter.get('key1')).toBeNull()
+      expect(await adapter.ttl('key1')).toBeNull()
+    })
+
+    it('should report no ttl for keys without expiry', async () => {
+      await adapter.set('key1', 'value1')
+      expect(await adapter.ttl('key1')).toBeNull()
+      expect(await adapter.ttl('missing')).toBeNull()
+    })
+
+    it('should keep the current expiry with keepTtl', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+
+      await adapter.set('key1', 'value1', { ttl: 100 })
+      now.mockReturnValue(1050)
+      await adapter.set('key1', 'value2', { keepTtl: true })
+      expect(await adapter.ttl('key1')).toBe(50)
+
+      await adapter.set('key1', 'value3')
+      expect(await adapter.ttl('key1')).toBeNull()
+    })
+
+    it('should support bulk operations', async () => {
+      await adapter.setMany([
+        { key: 'key1', value: 'value1' },
+        { key: 'key2', value: 'value2', ttl: 1000 }
+      ])
+      expect(await adapter.getMany(['key1', 'missing', 'key2'])).toEqual(['value1', null, 'value2'])
+
+      await adapter.deleteMany(['key1', 'key2'])
+      expect(await adapter.getMany(['key1', 'key2'])).toEqual([null, null])
+    })
+
+    it('should list live keys by prefix', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      await adapter.set('superlru:a:1', 'value1')
+      await adapter.set('superlru:a:2', 'value2', { ttl: 100 })
+      await adapter.set('superlru:b:1', 'value3')
+
+      expect((await adapter.keys('superlru:a:')).sort()).toEqual(['superlru:a:1', 'superlru:a:2'])
+      expect(await adapter.keys('')).toHaveLength(3)
+
+      now.mockReturnValue(1100)
+      expect(await adapter.keys('superlru:a:')).toEqual(['superlru:a:1'])
+    })
+
+    it('should clear all values', async () => {
+      await adapter.set('key1', 'value1')
+      await adapter.set('key2', 'value2')
+      await adapter.clear()
+      expect(await adapter.getMany(['key1', 'key2'])).toEqual([null, null])
+    })
+
+    it('should add to and read sets', async () => {
+      expect(await adapter.members!('tag1')).toEqual([])
+
+      await adapter.addMembers!('tag1', ['key1', 'key2'])
+      await adapter.addMembers!('tag1', ['key2', 'key3'])
+      expect((await adapter.members!('tag1')).sort()).toEqual(['key1', 'key2', 'key3'])
+      expect(await adapter.get('tag1')).toBeNull()
+
+      await adapter.delete('tag1')
+      expect(await adapter.members!('tag1')).toEqual([])
+    })
+
+    it('should keep sets alive as long as their longest-lived member', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      await adapter.addMembers!('tag1', ['key1'], 100)
+      await adapter.addMembers!('tag1', ['key2'], 50)
+      expect(await adapter.ttl('tag1')).toBe(100)
+      await adapter.addMembers!('tag1', ['key3'], 200)
+      expect(await adapter.ttl('tag1')).toBe(200)
+
+      now.mockReturnValue(1200)
+      expect(await adapter.members!('tag1')).toEqual([])
+
+      await adapter.addMembers!('tag2', ['key1'], 100)
+      await adapter.addMembers!('tag2', ['key2'])
+      expect(await adapter.ttl('tag2')).toBeNull()
+      expect(await adapter.members!('tag2')).toHaveLength(2)
+    })
+  })
+
+  describe('RedisAdapter', () => {
+    const createClient = () => {
+      const pipeline = {
+        set: jest.fn().mockReturnThis(),
+        execAsPipeline: jest.fn().mockResolvedValue([])
+      }
+      return {
+        pipeline,
+        get: jest.fn().mockResolvedValue('value1'),
+        set: jest.fn().mockResolvedValue('OK'),
+        del: jest.fn().mockResolvedValue(1),
+        mGet: jest.fn().mockResolvedValue(['value1', null]),
+        multi: jest.fn(() => pipeline),
+        pTTL: jest.fn().mockResolvedValue(-1),
+        scanIterator: jest.fn(async function*() {
+          yield 'superlru:ns:1'
+          yield 'superlru:ns:2'
+        }),
+        scan: jest
+          .fn()
+          .mockResolvedValueOnce({ cursor: 17, keys: ['superlru:ns:1'] })
+          .mockResolvedValueOnce({ cursor: 0, keys: ['superlru:ns:2'] }),
+        flushDb: jest.fn().mockResolvedValue('OK'),
+        eval: jest.fn().mockResolvedValue(null),
+        sMembers: jest.fn().mockResolvedValue(['key1', 'key2'])
+      }
+    }
+
+    it('should map expiry options to Redis set options', async () => {
+      const client = createClient()
+      const adapter = new RedisAdapter(client as any)
+
+      await adapter.set('key1', 'value1')
+      await adapter.set('key1', 'value1', { ttl: 100 })
+      await adapter.set('key1', 'value1', { keepTtl: true })
+
+      expect(client.set).toHaveBeenNthCalledWith(1, 'key1', 'value1')
+      expect(client.set).toHaveBeenNthCalledWith(2, 'key1', 'value1', { PX: 100 })
+      expect(client.set).toHaveBeenNthCalledWith(3, 'key1', 'value1', { KEEPTTL: true })
+    })
+
+    it('should translate PTTL replies', async () => {
+      const client = createClient()
+      const adapter = new RedisAdapter(client as any)
+
+      client.pTTL.mockResolvedValueOnce(250).mockResolvedValueOnce(-1).mockResolvedValueOnce(-2)
+      expect(await adapter.ttl('key1')).toBe(250)
+      expect(await adapter.ttl('key1')).toBeNull()
+      expect(await adapter.ttl('key1')).toBeNull()
+    })
+
+    it('should use MGET, a pipeline and a multi-key DEL for bulk operations', async () => {
+      const client = createClient()
+      const adapter = new RedisAdapter(client as any)
+
+      expect(await adapter.getMany(['key1', 'key2'])).toEqual(['value1', null])
+      expect(client.mGet).toHaveBeenCalledWith(['key1', 'key2'])
+
+      await adapter.setMany([
+        { key: 'key1', value: 'value1' },
+        { key: 'key2', value: 'value2', ttl: 100 }
+      ])
+      expect(client.pipeline.set).toHaveBeenCalledWith('key1', 'value1')
+      expect(client.pipeline.set).toHaveBeenCalledWith('key2', 'value2', { PX: 100 })
+      expect(client.pipeline.execAsPipeline).toHaveBeenCalledTimes(1)
+
+      await adapter.deleteMany(['key1', 'key2'])
+      expect(client.del).toHaveBeenCalledWith(['key1', 'key2'])
+    })
+
+    it('should list keys with SCAN and escape glob characters in the prefix', async () => {
+      const client = createClient()
+      const adapter = new RedisAdapter(client as any)
+
+      expect(await adapter.keys('superlru:ns:')).toEqual(['superlru:ns:1', 'superlru:ns:2'])
+      expect(client.scanIterator).toHaveBeenCalledWith({ MATCH: 'superlru:ns:*', COUNT: 100 })
+
+      await adapter.keys('superlru:a*b?[c]:')
+      expect(client.scanIterator).toHaveBeenLastCalledWith({ MATCH: 'superlru:a\\*b\\?\\[c\\]:*', COUNT: 100 })
+    })
+
+    it('should list one page of keys per SCAN call', async () => {
+      const client = createClient()
+      const adapter = new RedisAdapter(client as any)
+
+      expect(await adapter.scan('superlru:ns:', null)).toEqual({ keys: ['superlru:ns:1'], cursor: '17' })
+      expect(client.scan).toHaveBeenCalledWith(0, { MATCH: 'superlru:ns:*', COUNT: 100 })
+      expect(await adapter.scan('superlru:ns:', '17')).toEqual({ keys: ['superlru:ns:2'], cursor: null })
+      expect(client.scan).toHaveBeenLastCalledWith(17, { MATCH: 'superlru:ns:*', COUNT: 100 })
+    })
+
+    it('should keep sets with SADD and SMEMBERS', async () => {
+      const client = createClient()
+      const adapter = new RedisAdapter(client as any)
+
+      await adapter.addMembers('tag1', ['key1', 'key2'], 5000)
+      expect(client.eval).toHaveBeenCalledWith(expect.stringContaining("redis.call('SADD'"), {
+        keys: ['tag1'],
+        arguments: ['5000', 'key1', 'key2']
+      })
+      expect(await adapter.members('tag1')).toEqual(['key1', 'key2'])
+      expect(client.sMembers).toHaveBeenCalledWith('tag1')
+    })
+
+    it('should skip round-trips for empty batches', async () => {
+      const client = createClient()
+      const adapter = new RedisAdapter(client as any)
+
+      expect(await adapter.getMany([])).toEqual([])
+      await adapter.setMany([])
+      await adapter.deleteMany([])
+      await adapter.addMembers('tag1', [])
+      expect(client.mGet).not.toHaveBeenCalled()
+      expect(client.eval).not.toHaveBeenCalled()
+      expect(client.multi).not.toHaveBeenCalled()
+      expect(client.del).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('SuperLRU with a StorageAdapter', () => {
+    it('should write through to and read through from any adapter', async () => {
+      const storage = new MemoryAdapter()
+      const writer = new SuperLRU<string, object>({ maxSize: 5, writeThrough: storage })
+      const reader = new SuperLRU<string, object>({ maxSize: 5, writeThrough: storage })
+
+      await writer.set('key1', { prop: 'value' })
+      expect(await storage.get(md5('key1'))).not.toBeNull()
+      expect(await reader.get('key1')).toEqual({ prop: 'value' })
+
+      await writer.unset('key1')
+      expect(await storage.get(md5('key1'))).toBeNull()
+    })
+
+    it('should pass entry ttls to the adapter', async () => {
+      const storage = new MemoryAdapter()
+      const cache = new SuperLRU<string, string>({ maxSize: 5, writeThrough: storage })
+
+      await cache.set('key1', 'value1', { ttl: 1000 })
+      const ttl = await storage.ttl(md5('key1'))
+      expect(ttl).toBeGreaterThan(0)
+      expect(ttl).toBeLessThanOrEqual(1000)
+    })
+
+    it('should keep namespaces sharing an adapter apart', async () => {
+      const storage = new MemoryAdapter()
+      const users = new SuperLRU<string, string>({ maxSize: 1, writeThrough: storage, namespace: 'users' })
+      const orders = new SuperLRU<string, string>({ maxSize: 1, writeThrough: storage, namespace: 'orders' })
+      const legacy = new SuperLRU<string, string>({ maxSize: 1, writeThrough: storage })
+
+      await users.set('key1', 'user')
+      await orders.set('key1', 'order')
+      await orders.set('key2', 'order')
+      await legacy.set('key1', 'legacy')
+
+      expect(await storage.get(`superlru:users:${md5('key1')}`)).not.toBeNull()
+      expect(await storage.get(md5('key1'))).not.toBeNull()
+
+      // key1 was evicted from memory, so these read from the adapter
+      await users.set('other', 'value')
+      await orders.set('other', 'value')
+      expect(await users.get('key1')).toBe('user')
+      expect(await orders.get('key1')).toBe('order')
+
+      expect(await users.countNamespace()).toBe(2)
+      expect(await orders.countNamespace()).toBe(3)
+      expect(await orders.clearNamespace()).toBe(3)
+      expect(await orders.countNamespace()).toBe(0)
+      expect(await users.countNamespace()).toBe(2)
+      expect(await storage.get(md5('key1'))).not.toBeNull()
+    })
+
+    it('should require a namespace and write-through for namespace operations', async () => {
+      const storage = new MemoryAdapter()
+      await expect(new SuperLRU({ maxSize: 1, writeThrough: storage }).countNamespace()).rejects.toThrow(
+        'countNamespace requires a namespace to be defined'
+      )
+      await expect(new SuperLRU({ maxSize: 1, namespace: 'users' }).clearNamespace()).rejects.toThrow(
+        'clearNamespace requires writeThrough to be enabled'
+      )
+    })
+
+    it('should clear the namespace remote keys in batches', async () => {
+      const storage = new MemoryAdapter()
+      const deleteMany = jest.spyOn(storage, 'deleteMany')
+      const users = new SuperLRU<string, number>({ maxSize: 10, writeThrough: storage, namespace: 'users' })
+      const orders = new SuperLRU<string, number>({ maxSize: 10, writeThrough: storage, namespace: 'orders' })
+      await users.setMany(Array.from({ length: 150 }, (_, i): [string, number] => [`key${i}`, i]))
+      await orders.set('key1', 1)
+
+      await users.clear({ memory: false, remote: true })
+
+      expect(deleteMany).toHaveBeenCalledTimes(2)
+      expect(await users.countNamespace()).toBe(0)
+      expect(await orders.countNamespace()).toBe(1)
+      expect(users.size).toBe(10)
+    })
+
+    it('should clear the namespace one scanned page at a time', async () => {
+      const storage = new MemoryAdapter()
+      // pages of two keys; keys deleted after a page are no longer listed
+      const scan = jest.fn(async (prefix: string) => {
+        const keys = (await storage.keys(prefix)).sort()
+        return { keys: keys.slice(0, 2), cursor: keys.length > 2 ? 'next' : null }
+      })
+      Object.assign(storage, { scan })
+      const deleteMany = jest.spyOn(storage, 'deleteMany')
+      const cache = new SuperLRU<string, number>({ maxSize: 10, writeThrough: storage, namespace: 'users' })
+      await cache.setMany([
+        ['a', 1],
+        ['b', 2],
+        ['c', 3]
+      ])
+
+      expect(await cache.clearNamespace()).toBe(3)
+
+      // two pages of entries, then the tag sets
+      expect(scan).toHaveBeenCalledTimes(3)
+      expect(deleteMany).toHaveBeenCalledTimes(2)
+      expect(await storage.keys('')).toEqual([])
+    })
+
+    it('should apply the failure policy to namespace operations', async () => {
+      const storage = new MemoryAdapter()
+      jest.spyOn(storage, 'keys').mockRejectedValue(new Error('connection lost'))
+      const cache = new SuperLRU<string, number>({
+        maxSize: 10,
+        writeThrough: storage,
+        namespace: 'users',
+        failurePolicy: 'ignore'
+      })
+      const onError = jest.fn()
+      cache.on('remoteError', onError)
+
+      expect(await cache.countNamespace()).toBe(0)
+      expect(await cache.clearNamespace()).toBe(0)
+      await cache.clear({ remote: true })
+
+      // clearing scans the entries and the tag sets
+      expect(onError).toHaveBeenCalledTimes(5)
+      expect(cache.stats().remote.errors).toBe(5)
+    })
+
+    it('should drop queued write-behind operations when clearing remote keys', async () => {
+      const storage = new MemoryAdapter()
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: storage,
+        writeBehind: { flushInterval: 60000 },
+        namespace: 'users'
+      })
+      await cache.set('key1', 'value1')
+      await cache.flush()
+      await cache.set('key2', 'value2')
+
+      await cache.clear({ remote: true })
+      await cache.close()
+
+      expect(await storage.keys('')).toEqual([])
+      expect(await cache.get('key2')).toBeNull()
+    })
+
+    it('should persist through the filesystem adapter', async () => {
+      const storage = new FileSystemAdapter({ directory: path.join(directory, 'cache') })
+      const writer = new SuperLRU<string, object>({ maxSize: 5, writeThrough: storage, encrypt: true })
+      await writer.set('key1', { prop: 'value' })
+
+      const files = await fs.readdir(path.join(directory, 'cache'))
+      expect(files).toEqual([`k${Buffer.from(md5('key1')).toString('base64url')}`])
+    })
+
+    it('should keep any key inside the filesystem adapter directory', async () => {
+      const root = await fs.mkdtemp(path.join(directory, 'keys-'))
+      const storage = new FileSystemAdapter({ directory: path.join(root, 'cache') })
+      const long = 'x'.repeat(1000)
+      await storage.set('..', 'parent')
+      await storage.set('', 'empty')
+      await storage.set('a/b', 'slash')
+      await storage.set(long, 'long')
+
+      expect(await storage.get('..')).toBe('parent')
+      expect(await storage.get('')).toBe('empty')
+      expect(await storage.get(long)).toBe('long')
+      expect((await storage.keys('')).sort()).toEqual(['', '..', 'a/b', long])
+      expect(await fs.readdir(root)).toEqual(['cache'])
+      expect(await fs.readdir(path.join(root, 'cache'))).toHaveLength(4)
+    })
+
+    it('should remove the temporary file when the filesystem adapter cannot rename it', async () => {
+      const root = await fs.mkdtemp(path.join(directory, 'rename-'))
+      const storage = new FileSystemAdapter({ directory: root })
+      const rename = jest.spyOn(fs, 'rename').mockRejectedValueOnce(new Error('EXDEV'))
+
+      await expect(storage.set('key1', 'value1')).rejects.toThrow('EXDEV')
+      expect(await fs.readdir(root)).toEqual([])
+      rename.mockRestore()
+    })
+  })
+})
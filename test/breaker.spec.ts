@@ -0,0 +1,222 @@
+import { MemoryAdapter, SuperLRU, md5 } from '../src'
+import { CircuitBreaker } from '../src/breaker'
+
+describe('Remote failure handling', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('CircuitBreaker', () => {
+    it('should open after consecutive failures and reject calls without running them', async () => {
+      const onStateChange = jest.fn()
+      const breaker = new CircuitBreaker({ failureThreshold: 2 }, onStateChange)
+      const failing = jest.fn().mockRejectedValue(new Error('down'))
+
+      await expect(breaker.run(failing)).rejects.toThrow('down')
+      expect(breaker.state).toBe('closed')
+      await expect(breaker.run(failing)).rejects.toThrow('down')
+      expect(breaker.state).toBe('open')
+      expect(onStateChange).toHaveBeenCalledWith('open', 'closed')
+
+      await expect(breaker.run(failing)).rejects.toThrow('remote storage is unavailable, the circuit breaker is open')
+      expect(failing).toHaveBeenCalledTimes(2)
+    })
+
+    it('should reset the failure count after a success', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 2 })
+
+      await expect(breaker.run(() => Promise.reject(new Error('down')))).rejects.toThrow()
+      await breaker.run(() => Promise.resolve())
+      await expect(breaker.run(() => Promise.reject(new Error('down')))).rejects.toThrow()
+
+      expect(breaker.state).toBe('closed')
+    })
+
+    it('should let a single probe through after the cooldown', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      const onStateChange = jest.fn()
+      const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 500 }, onStateChange)
+      breaker.failure()
+
+      now.mockReturnValue(1499)
+      expect(breaker.allow()).toBe(false)
+
+      now.mockReturnValue(1500)
+      expect(breaker.allow()).toBe(true)
+      expect(breaker.state).toBe('half-open')
+      expect(breaker.allow()).toBe(false)
+
+      breaker.success()
+      expect(breaker.state).toBe('closed')
+      expect(onStateChange.mock.calls).toEqual([
+        ['open', 'closed'],
+        ['half-open', 'open'],
+        ['closed', 'half-open']
+      ])
+    })
+
+    it('should open again when the probe fails', () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      const breaker = new CircuitBreaker({ failureThreshold: 3, cooldown: 500 })
+      breaker.failure()
+      breaker.failure()
+      breaker.failure()
+
+      now.mockReturnValue(1500)
+      expect(breaker.allow()).toBe(true)
+      breaker.failure()
+
+      expect(breaker.state).toBe('open')
+      expect(breaker.allow()).toBe(false)
+    })
+  })
+
+  describe('SuperLRU failure policy', () => {
+    const createFailingStorage = () => {
+      const storage = new MemoryAdapter()
+      const error = new Error('connection lost')
+      const set = jest.spyOn(storage, 'set').mockRejectedValue(error)
+      const get = jest.spyOn(storage, 'get').mockRejectedValue(error)
+      return { storage, error, set, get }
+    }
+
+    it('should throw remote errors by default, after updating memory', async () => {
+      const { storage } = createFailingStorage()
+      const cache = new SuperLRU<string, string>({ maxSize: 5, writeThrough: storage })
+
+      await expect(cache.set('key1', 'value1')).rejects.toThrow('connection lost')
+      expect(await cache.get('key1')).toBe('value1')
+    })
+
+    it('should carry on memory-only and emit remoteError with the ignore policy', async () => {
+      const { storage, error } = createFailingStorage()
+      const cache = new SuperLRU<string, string>({ maxSize: 5, writeThrough: storage, failurePolicy: 'ignore' })
+      const onError = jest.fn()
+      cache.on('remoteError', onError)
+
+      await cache.set('key1', 'value1')
+      expect(await cache.get('key1')).toBe('value1')
+      expect(await cache.get('missing')).toBeNull()
+
+      expect(onError).toHaveBeenCalledTimes(2)
+      expect(onError).toHaveBeenCalledWith(error)
+    })
+
+    it('should stop calling remote storage once the circuit opens', async () => {
+      const { storage, set } = createFailingStorage()
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: storage,
+        failurePolicy: 'ignore',
+        circuitBreaker: { failureThreshold: 2 }
+      })
+      const onStateChange = jest.fn()
+      cache.on('breakerStateChange', onStateChange)
+
+      await cache.set('key1', 'value1')
+      expect(cache.stats().breaker).toBe('closed')
+      await cache.set('key2', 'value2')
+      expect(cache.stats().breaker).toBe('open')
+      expect(onStateChange).toHaveBeenCalledWith('open', 'closed')
+
+      await cache.set('key3', 'value3')
+      await cache.unset('key3')
+      expect(set).toHaveBeenCalledTimes(2)
+    })
+
+    it('should reject with the breaker error when the circuit is open and the policy is throw', async () => {
+      const { storage } = createFailingStorage()
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: storage,
+        circuitBreaker: { failureThreshold: 1 }
+      })
+
+      await expect(cache.set('key1', 'value1')).rejects.toThrow('connection lost')
+      await expect(cache.set('key2', 'value2')).rejects.toThrow(
+        'remote storage is unavailable, the circuit breaker is open'
+      )
+    })
+
+    it('should close the circuit when a probe succeeds after the cooldown', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      const { storage, set, get } = createFailingStorage()
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: storage,
+        failurePolicy: 'ignore',
+        circuitBreaker: { failureThreshold: 1, cooldown: 1000 }
+      })
+
+      await cache.set('key1', 'value1')
+      expect(cache.stats().breaker).toBe('open')
+
+      set.mockRestore()
+      get.mockRestore()
+      now.mockReturnValue(2000)
+      await cache.set('key2', 'value2')
+
+      expect(cache.stats().breaker).toBe('closed')
+      expect(await storage.get(md5('key2'))).not.toBeNull()
+    })
+
+    it('should hold write-behind flushes while the circuit is open', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      const storage = new MemoryAdapter()
+      const setMany = jest.spyOn(storage, 'setMany').mockRejectedValue(new Error('connection lost'))
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: storage,
+        writeBehind: { flushInterval: 60000, maxRetries: 2 },
+        circuitBreaker: { failureThreshold: 2, cooldown: 1000 }
+      })
+      const onError = jest.fn()
+      cache.on('writeBehindError', onError)
+
+      await cache.set('key1', 'value1')
+      await cache.flush()
+      expect(setMany).toHaveBeenCalledTimes(2)
+      expect(cache.stats().breaker).toBe('open')
+
+      // held writes are neither attempted nor counted against maxRetries
+      await cache.flush()
+      await cache.flush()
+      expect(setMany).toHaveBeenCalledTimes(2)
+      expect(onError).not.toHaveBeenCalled()
+
+      setMany.mockRestore()
+      now.mockReturnValue(2000)
+      await cache.flush()
+
+      expect(cache.stats().breaker).toBe('closed')
+      expect(await storage.get(md5('key1'))).not.toBeNull()
+      await cache.close()
+      expect(onError).not.toHaveBeenCalled()
+    })
+
+    it('should report writes still held when it is closed', async () => {
+      const storage = new MemoryAdapter()
+      jest.spyOn(storage, 'setMany').mockRejectedValue(new Error('connection lost'))
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: storage,
+        writeBehind: { flushInterval: 60000 },
+        circuitBreaker: { failureThreshold: 1 }
+      })
+      const onError = jest.fn()
+      cache.on('writeBehindError', onError)
+
+      await cache.set('key1', 'value1')
+      await cache.close()
+
+      expect(onError).toHaveBeenCalledWith(new Error('remote storage is unavailable, queued writes were not flushed'), [
+        md5('key1')
+      ])
+    })
+
+    it('should report a null breaker state without a circuit breaker', () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 5 })
+      expect(cache.stats().breaker).toBeNull()
+    })
+  })
+})
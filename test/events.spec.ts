@@ -0,0 +1,106 @@
+import { MemoryAdapter, SuperLRU } from '../src'
+
+describe('Cache events', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should emit set, hit and miss', async () => {
+    const cache = new SuperLRU<string, string>({ maxSize: 5 })
+    const set = jest.fn()
+    const hit = jest.fn()
+    const miss = jest.fn()
+    cache.on('set', set)
+    cache.on('hit', hit)
+    cache.on('miss', miss)
+
+    await cache.set('a', '1')
+    await cache.setMany([['b', '2']])
+    await cache.get('a')
+    await cache.get('missing')
+    cache.has('b')
+    await cache.getMany(['b', 'other'])
+
+    expect(set.mock.calls).toEqual([
+      ['a', '1'],
+      ['b', '2']
+    ])
+    expect(hit.mock.calls).toEqual([['a'], ['b'], ['b']])
+    expect(miss.mock.calls).toEqual([['missing'], ['other']])
+  })
+
+  it('should emit evict with the reason', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+    const cache = new SuperLRU<string, string>({ maxSize: 2 })
+    const evict = jest.fn()
+    cache.on('evict', evict)
+
+    await cache.set('a', '1')
+    await cache.set('a', '2')
+    await cache.set('b', '3', { ttl: 100 })
+    await cache.set('c', '4')
+    await cache.unset('c')
+    now.mockReturnValue(2000)
+    await cache.get('b')
+    await cache.set('d', '5')
+    await cache.clear({ notify: true })
+
+    expect(evict.mock.calls).toEqual([
+      ['a', '1', 'overwritten'],
+      ['a', '2', 'capacity'],
+      ['c', '4', 'deleted'],
+      ['b', '3', 'expired'],
+      ['d', '5', 'cleared']
+    ])
+  })
+
+  it('should stop calling a listener once it is removed', async () => {
+    const cache = new SuperLRU<string, string>({ maxSize: 5 })
+    const set = jest.fn()
+    cache.on('set', set)
+    await cache.set('a', '1')
+    cache.off('set', set)
+    await cache.set('b', '2')
+
+    expect(set).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not decode evicted values when nobody listens', async () => {
+    const cache = new SuperLRU<string, string>({ maxSize: 1 })
+    const valueOut = jest.spyOn(cache as any, 'valueOut')
+    await cache.set('a', '1')
+    await cache.set('a', '2')
+    await cache.set('b', '3')
+
+    expect(valueOut).not.toHaveBeenCalled()
+  })
+
+  it('should emit remoteHit and remoteMiss on read-through', async () => {
+    const storage = new MemoryAdapter()
+    const writer = new SuperLRU<string, string>({ maxSize: 5, writeThrough: storage })
+    await writer.set('a', '1')
+    const cache = new SuperLRU<string, string>({ maxSize: 5, writeThrough: storage })
+    const remoteHit = jest.fn()
+    const remoteMiss = jest.fn()
+    cache.on('remoteHit', remoteHit)
+    cache.on('remoteMiss', remoteMiss)
+
+    expect(await cache.get('a')).toBe('1')
+    expect(await cache.get('b')).toBeNull()
+    await cache.getMany(['c'])
+
+    expect(remoteHit.mock.calls).toEqual([['a']])
+    expect(remoteMiss.mock.calls).toEqual([['b'], ['c']])
+  })
+
+  it('should keep onEvicted as a listener that ignores overwrites', async () => {
+    const onEvicted = jest.fn()
+    const cache = new SuperLRU<string, string>({ maxSize: 1, onEvicted })
+    await cache.set('a', '1')
+    await cache.set('a', '2')
+    await cache.set('b', '3')
+
+    expect(onEvicted.mock.calls).toEqual([['a', '2', 'capacity']])
+    expect(cache.listenerCount('evict')).toBe(1)
+  })
+})
@@ -1,5 +1,5 @@
 import crypto from 'crypto'
-import { SuperLRU, md5 } from '../src'
+import { MemoryAdapter, SuperLRU, md5, parseKeyId } from '../src'
 
 describe('SuperLRU Cache Integration Tests', () => {
   describe('Basic cache operations', () => {
@@ -72,6 +72,56 @@ describe('SuperLRU Cache Integration Tests', () => {
       expect(value).toStrictEqual(complexObject)
     })
 
+    it.each(['gzip', 'deflate', 'deflate-raw', 'brotli', 'none'] as const)(
+      'should store and retrieve values with the %s codec',
+      async (codec) => {
+        const cache = new SuperLRU<string, object>({ maxSize: 5, codec, encrypt: true })
+        const value = { name: 'Test Object', values: [1, 2, 3, 4, 5] }
+
+        await cache.set('key1', value)
+        expect(await cache.get('key1')).toStrictEqual(value)
+      }
+    )
+
+    it('should support custom codecs', async () => {
+      const codec = {
+        name: 'reverse',
+        encode: jest.fn((data: Buffer) => Buffer.from(data).reverse()),
+        decode: jest.fn((data: Buffer) => Buffer.from(data).reverse())
+      }
+      const cache = new SuperLRU<string, string>({ maxSize: 5, codec })
+
+      await cache.set('key1', 'value1')
+      expect(await cache.get('key1')).toBe('value1')
+      expect(codec.encode).toHaveBeenCalledTimes(1)
+      expect(codec.decode).toHaveBeenCalledTimes(1)
+    })
+
+    it('should reject unknown codecs and codec names with a colon', () => {
+      expect(() => new SuperLRU<string, string>({ maxSize: 5, codec: 'lz4' as any })).toThrow(
+        'unknown compression codec "lz4"'
+      )
+      const codec = { name: 'a:b', encode: (data: Buffer) => data, decode: (data: Buffer) => data }
+      expect(() => new SuperLRU<string, string>({ maxSize: 5, codec })).toThrow('must not contain a colon')
+    })
+
+    it('should store values below compressionThreshold uncompressed', async () => {
+      const codec = {
+        name: 'spy',
+        encode: jest.fn((data: Buffer) => data),
+        decode: jest.fn((data: Buffer) => data)
+      }
+      const cache = new SuperLRU<string, string>({ maxSize: 5, codec, compressionThreshold: 100 })
+
+      await cache.set('small', 'value1')
+      await cache.set('large', 'a'.repeat(200))
+      expect(codec.encode).toHaveBeenCalledTimes(1)
+
+      expect(await cache.get('small')).toBe('value1')
+      expect(await cache.get('large')).toBe('a'.repeat(200))
+      expect(codec.decode).toHaveBeenCalledTimes(1)
+    })
+
     it('should store and retrieve values with compression disabled', async () => {
       const cache = new SuperLRU<string, string>({ maxSize: 5, compress: false })
       await cache.set('key1', 'value1')
@@ -80,6 +130,40 @@ describe('SuperLRU Cache Integration Tests', () => {
     })
   })
 
+  describe('Serialization', () => {
+    const value = {
+      created: new Date('2023-01-01T00:00:00Z'),
+      tags: new Set(['a', 'b']),
+      counts: new Map([['x', BigInt(1)]]),
+      missing: undefined
+    }
+
+    it.each([
+      ['compression', { compress: true }],
+      ['encryption', { compress: false, encrypt: true }],
+      ['compression and encryption', { compress: true, encrypt: true }]
+    ])('should preserve value types with %s', async (_, options) => {
+      const cache = new SuperLRU<string, any>({ maxSize: 5, ...options })
+      await cache.set('key1', value)
+      const result = await cache.get('key1')
+      expect(result).toEqual(value)
+      expect(result).toHaveProperty('missing', undefined)
+    })
+
+    it('should use a custom serializer', async () => {
+      const serializer = {
+        serialize: jest.fn((v: unknown) => JSON.stringify(v)),
+        deserialize: jest.fn((text: string) => JSON.parse(text))
+      }
+      const cache = new SuperLRU<string, object>({ maxSize: 5, serializer })
+
+      await cache.set('key1', { a: 1 })
+      expect(await cache.get('key1')).toEqual({ a: 1 })
+      expect(serializer.serialize).toHaveBeenCalled()
+      expect(serializer.deserialize).toHaveBeenCalled()
+    })
+  })
+
   describe('Encryption functionality', () => {
     it('should store and retrieve string values with encryption enabled', async () => {
       const cache = new SuperLRU<string, string>({
@@ -137,6 +221,83 @@ describe('SuperLRU Cache Integration Tests', () => {
     })
   })
 
+  describe('Encryption keyring', () => {
+    it('should reject a keyring without the active key', () => {
+      expect(
+        () =>
+          new SuperLRU<string, string>({
+            maxSize: 5,
+            encrypt: true,
+            keyring: { keys: { v1: crypto.randomBytes(32) }, activeKeyId: 'v2' }
+          })
+      ).toThrow('keyring has no key with id "v2"')
+    })
+
+    it('should keep entries readable across key rotations', async () => {
+      const cache = new SuperLRU<string, any>({
+        maxSize: 5,
+        encrypt: true,
+        keyring: { keys: { v1: crypto.randomBytes(32) }, activeKeyId: 'v1' }
+      })
+
+      await cache.set('key1', { secret: 1 })
+      const rotation = cache.rotateKey('v2', crypto.randomBytes(32))
+      // writes during the re-encryption pass use the new key
+      await cache.set('key2', { secret: 2 })
+
+      expect(await rotation).toBe(1)
+      expect(await cache.get('key1')).toEqual({ secret: 1 })
+      expect(await cache.get('key2')).toEqual({ secret: 2 })
+    })
+
+    it('should rotate to a key already in the keyring', async () => {
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        encrypt: true,
+        compress: false,
+        keyring: { keys: { v1: crypto.randomBytes(32), v2: crypto.randomBytes(32) }, activeKeyId: 'v1' }
+      })
+
+      await cache.set('key1', 'value1')
+      expect(await cache.rotateKey('v2')).toBe(1)
+      expect(await cache.get('key1')).toBe('value1')
+      await expect(cache.rotateKey('v3')).rejects.toThrow('keyring has no key with id "v3"')
+    })
+
+    it('should re-encrypt entries of the namespace found only in remote storage', async () => {
+      const storage = new MemoryAdapter()
+      const cache = new SuperLRU<string, string>({
+        maxSize: 1,
+        writeThrough: storage,
+        namespace: 'users',
+        encrypt: true,
+        keyring: { keys: { v1: crypto.randomBytes(32) }, activeKeyId: 'v1' }
+      })
+      await cache.set('key1', 'value1', { ttl: 60000 })
+      // key1 is pushed out of memory and only kept in remote storage
+      await cache.set('key2', 'value2')
+
+      expect(await cache.rotateKey('v2', crypto.randomBytes(32))).toBe(2)
+
+      const remoteKeys = await storage.keys('superlru:users:')
+      expect(remoteKeys).toHaveLength(2)
+      for (const remoteKey of remoteKeys) {
+        const { k, v } = JSON.parse((await storage.get(remoteKey))!)
+        expect(parseKeyId(k).keyId).toBe('v2')
+        expect(parseKeyId(v).keyId).toBe('v2')
+      }
+      expect(await storage.ttl(`superlru:users:${md5('key1')}`)).toBeGreaterThan(0)
+      expect(await cache.get('key1')).toBe('value1')
+    })
+
+    it('should require encryption to rotate keys', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 5 })
+      await expect(cache.rotateKey('v2', crypto.randomBytes(32))).rejects.toThrow(
+        'rotateKey requires encrypt to be enabled'
+      )
+    })
+  })
+
   describe('LRU Eviction behavior', () => {
     it('should evict least recently used items when capacity is exceeded', async () => {
       const cache = new SuperLRU<string, string>({ maxSize: 3 })
@@ -199,6 +360,346 @@ describe('SuperLRU Cache Integration Tests', () => {
     })
   })
 
+  describe('Byte-size bounded capacity', () => {
+    it('should evict least recently used items until maxBytes is satisfied', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 100, maxBytes: 10, compress: false })
+
+      await cache.set('key1', 'aaaa')
+      await cache.set('key2', 'bbbb')
+      expect(cache.stats().bytes).toBe(8)
+
+      await cache.set('key3', 'ccccccc')
+      expect(cache.has('key1')).toBe(false)
+      expect(cache.has('key2')).toBe(false)
+      expect(cache.has('key3')).toBe(true)
+      expect(cache.stats().bytes).toBe(7)
+    })
+
+    it('should account for the stored form after compression', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 100, compress: true })
+      const value = 'a'.repeat(10000)
+
+      await cache.set('key1', value)
+      const { bytes } = cache.stats()
+      expect(bytes).toBeGreaterThan(0)
+      expect(bytes).toBeLessThan(value.length)
+    })
+
+    it('should use sizeCalculation when provided', async () => {
+      const cache = new SuperLRU<string, { weight: number }>({
+        maxSize: 100,
+        maxBytes: 100,
+        sizeCalculation: (key, value) => value.weight
+      })
+
+      await cache.set('key1', { weight: 60 })
+      await cache.set('key2', { weight: 30 })
+      expect(cache.stats().bytes).toBe(90)
+
+      await cache.set('key3', { weight: 20 })
+      expect(cache.has('key1')).toBe(false)
+      expect(cache.stats().bytes).toBe(50)
+    })
+
+    it('should update the byte total when overwriting an entry', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 100, maxBytes: 10, compress: false })
+
+      await cache.set('key1', 'aaaa')
+      await cache.set('key2', 'bbbb')
+      await cache.set('key2', 'bbbbbbbb')
+
+      expect(cache.has('key1')).toBe(false)
+      expect(cache.stats().bytes).toBe(8)
+
+      await cache.unset('key2')
+      expect(cache.stats().bytes).toBe(0)
+    })
+
+    it('should enforce both maxSize and maxBytes', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 2, maxBytes: 1000, compress: false })
+
+      await cache.set('key1', 'a')
+      await cache.set('key2', 'b')
+      await cache.set('key3', 'c')
+
+      expect(cache.size).toBe(2)
+      expect(cache.has('key1')).toBe(false)
+    })
+
+    it('should reject values larger than maxBytes', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 100, maxBytes: 10, compress: false })
+
+      await cache.set('key1', 'aaaa')
+      await expect(cache.set('key2', 'b'.repeat(11))).rejects.toThrow('exceeds maxBytes')
+
+      expect(cache.has('key1')).toBe(true)
+      expect(cache.has('key2')).toBe(false)
+      expect(cache.stats().bytes).toBe(4)
+    })
+
+    it('should remove the previous value of a key whose new value is too large', async () => {
+      const storage = new MemoryAdapter()
+      const cache = new SuperLRU<string, string>({ maxSize: 100, maxBytes: 10, compress: false, writeThrough: storage })
+
+      await cache.set('key1', 'aaaa')
+      await expect(cache.set('key1', 'b'.repeat(11))).rejects.toThrow('exceeds maxBytes')
+
+      expect(cache.has('key1')).toBe(false)
+      expect(await cache.get('key1')).toBeNull()
+      expect(cache.stats().bytes).toBe(0)
+    })
+  })
+
+  describe('getOrLoad', () => {
+    it('should load, store and return a missing value', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 5 })
+      const loader = jest.fn(async (key: string) => `loaded-${key}`)
+
+      expect(await cache.getOrLoad('key1', loader)).toBe('loaded-key1')
+      expect(await cache.getOrLoad('key1', loader)).toBe('loaded-key1')
+      expect(loader).toHaveBeenCalledTimes(1)
+      expect(await cache.get('key1')).toBe('loaded-key1')
+    })
+
+    it('should use the constructor-level loader by default', async () => {
+      const loader = jest.fn(async (key: string) => `loaded-${key}`)
+      const cache = new SuperLRU<string, string>({ maxSize: 5, loader })
+
+      expect(await cache.getOrLoad('key1')).toBe('loaded-key1')
+      expect(loader).toHaveBeenCalledWith('key1')
+    })
+
+    it('should throw when no loader is available', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 5 })
+      await expect(cache.getOrLoad('key1')).rejects.toThrow('getOrLoad requires a loader')
+    })
+
+    it('should share one pending load between concurrent callers', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 5 })
+      let resolve: (value: string) => void = () => {}
+      const loader = jest.fn(() => new Promise<string>((r) => (resolve = r)))
+
+      const results = Promise.all([
+        cache.getOrLoad('key1', loader),
+        cache.getOrLoad('key1', loader),
+        cache.getOrLoad('key1', loader)
+      ])
+      resolve('value1')
+
+      expect(await results).toEqual(['value1', 'value1', 'value1'])
+      expect(loader).toHaveBeenCalledTimes(1)
+    })
+
+    it('should reject every waiter and cache nothing when the loader fails', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 5 })
+      const loader = jest.fn(async () => {
+        throw new Error('upstream down')
+      })
+
+      const results = await Promise.allSettled([cache.getOrLoad('key1', loader), cache.getOrLoad('key1', loader)])
+
+      expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected'])
+      expect(loader).toHaveBeenCalledTimes(1)
+      expect(cache.has('key1')).toBe(false)
+
+      // the failed load is not remembered
+      expect(await cache.getOrLoad('key1', async () => 'value1')).toBe('value1')
+    })
+
+    it('should not cache null results', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 5 })
+
+      expect(await cache.getOrLoad('key1', async () => null)).toBeNull()
+      expect(cache.size).toBe(0)
+    })
+
+    it('should apply set options to loaded values', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      const cache = new SuperLRU<string, string>({ maxSize: 5 })
+
+      await cache.getOrLoad('key1', async () => 'value1', { ttl: 100 })
+      now.mockReturnValue(1100)
+      expect(cache.has('key1')).toBe(false)
+      now.mockRestore()
+    })
+  })
+
+  describe('Stale-while-revalidate', () => {
+    const flushPromises = () => new Promise((resolve) => setImmediate(resolve))
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should require a loader', () => {
+      expect(() => new SuperLRU<string, string>({ maxSize: 5, staleWhileRevalidate: 100 })).toThrow(
+        'staleWhileRevalidate requires a loader to be defined'
+      )
+    })
+
+    it('should serve a stale value while refreshing it in the background', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      const loader = jest.fn(async (key: string) => `fresh-${key}`)
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        defaultTtl: 100,
+        staleWhileRevalidate: 1000,
+        loader
+      })
+
+      await cache.set('key1', 'stale')
+      now.mockReturnValue(1500)
+
+      expect(await cache.get('key1')).toBe('stale')
+      expect(loader).toHaveBeenCalledTimes(1)
+
+      await flushPromises()
+      expect(await cache.get('key1')).toBe('fresh-key1')
+      expect(loader).toHaveBeenCalledTimes(1)
+    })
+
+    it('should start only one refresh for concurrent stale reads', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      const loader = jest.fn(async () => 'fresh')
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        defaultTtl: 100,
+        staleWhileRevalidate: 1000,
+        loader
+      })
+
+      await cache.set('key1', 'stale')
+      now.mockReturnValue(1500)
+
+      await Promise.all([cache.get('key1'), cache.get('key1'), cache.get('key1')])
+      expect(loader).toHaveBeenCalledTimes(1)
+    })
+
+    it('should keep the stale value and emit refreshError when the refresh fails', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      const error = new Error('upstream down')
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        defaultTtl: 100,
+        staleWhileRevalidate: 1000,
+        loader: async () => {
+          throw error
+        }
+      })
+      const onRefreshError = jest.fn()
+      cache.on('refreshError', onRefreshError)
+
+      await cache.set('key1', 'stale')
+      now.mockReturnValue(1500)
+
+      expect(await cache.get('key1')).toBe('stale')
+      await flushPromises()
+      expect(onRefreshError).toHaveBeenCalledWith('key1', error)
+      expect(await cache.get('key1')).toBe('stale')
+
+      // once the grace period is over the entry expires
+      now.mockReturnValue(2100)
+      expect(cache.has('key1')).toBe(false)
+    })
+
+    it('should refresh with the ttl the entry was stored with', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        defaultTtl: 100,
+        staleWhileRevalidate: 50,
+        loader: async () => 'fresh'
+      })
+
+      await cache.set('key1', 'stale', { ttl: 1000 })
+      now.mockReturnValue(2010)
+      await cache.get('key1')
+      await flushPromises()
+
+      now.mockReturnValue(3000)
+      expect(await cache.get('key1')).toBe('fresh')
+    })
+  })
+
+  describe('Bulk operations', () => {
+    it('should get many values in order, with null for missing keys', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 5 })
+      await cache.set('key1', 'value1')
+      await cache.set('key2', 'value2')
+
+      expect(await cache.getMany(['key2', 'missing', 'key1', 'key2'])).toEqual(['value2', null, 'value1', 'value2'])
+      expect(cache.stats()).toMatchObject({ hits: 3, misses: 1 })
+    })
+
+    it('should set many values with shared options', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      const cache = new SuperLRU<string, string>({ maxSize: 5 })
+
+      await cache.setMany(
+        [
+          ['key1', 'value1'],
+          ['key2', 'value2']
+        ],
+        { ttl: 100 }
+      )
+      expect(await cache.getMany(['key1', 'key2'])).toEqual(['value1', 'value2'])
+
+      now.mockReturnValue(1100)
+      expect(await cache.getMany(['key1', 'key2'])).toEqual([null, null])
+      now.mockRestore()
+    })
+
+    it('should keep the last maxSize entries of a batch larger than the cache', async () => {
+      const onEvicted = jest.fn()
+      const cache = new SuperLRU<string, string>({ maxSize: 2, onEvicted })
+      await cache.set('old', 'value')
+
+      await cache.setMany([
+        ['key1', 'value1'],
+        ['key2', 'value2'],
+        ['key3', 'value3']
+      ])
+
+      expect(cache.size).toBe(2)
+      expect(cache.allEntries()).toEqual([
+        ['key2', 'value2'],
+        ['key3', 'value3']
+      ])
+      expect(onEvicted.mock.calls).toEqual([
+        ['old', 'value', 'capacity'],
+        ['key1', 'value1', 'capacity']
+      ])
+    })
+
+    it('should not store any entry when one exceeds maxBytes', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 5, maxBytes: 10, compress: false })
+
+      await expect(
+        cache.setMany([
+          ['key1', 'small'],
+          ['key2', 'much too large']
+        ])
+      ).rejects.toThrow('value of 14 bytes exceeds maxBytes (10)')
+      expect(cache.size).toBe(0)
+    })
+
+    it('should unset many keys', async () => {
+      const onEvicted = jest.fn()
+      const cache = new SuperLRU<string, string>({ maxSize: 5, onEvicted })
+      await cache.setMany([
+        ['key1', 'value1'],
+        ['key2', 'value2'],
+        ['key3', 'value3']
+      ])
+
+      await cache.unsetMany(['key1', 'key3', 'missing'])
+
+      expect(cache.allEntries()).toEqual([['key2', 'value2']])
+      expect(onEvicted).toHaveBeenCalledWith('key1', 'value1', 'deleted')
+      expect(onEvicted).toHaveBeenCalledWith('key3', 'value3', 'deleted')
+    })
+  })
+
   describe('Statistics tracking', () => {
     it('should track cache hits and misses', async () => {
       const cache = new SuperLRU<string, string>({ maxSize: 5 })
@@ -267,6 +768,88 @@ describe('SuperLRU Cache Integration Tests', () => {
       expect(evictionLog.length).toBe(2)
       expect(evictionLog[1]).toEqual(['key2', 'value2'])
     })
+
+    it('should pass the eviction reason to the onEvicted callback', async () => {
+      const onEvicted = jest.fn()
+      const cache = new SuperLRU<string, string>({ maxSize: 1, onEvicted })
+
+      await cache.set('key1', 'value1')
+      await cache.set('key2', 'value2')
+      await cache.unset('key2')
+
+      expect(onEvicted).toHaveBeenNthCalledWith(1, 'key1', 'value1', 'capacity')
+      expect(onEvicted).toHaveBeenNthCalledWith(2, 'key2', 'value2', 'deleted')
+    })
+  })
+
+  describe('TTL expiration', () => {
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should expire entries after the default ttl', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      const cache = new SuperLRU<string, string>({ maxSize: 5, defaultTtl: 100 })
+
+      await cache.set('key1', 'value1')
+      expect(await cache.get('key1')).toBe('value1')
+
+      now.mockReturnValue(1100)
+      expect(await cache.get('key1')).toBeNull()
+      expect(cache.size).toBe(0)
+      expect(cache.stats().misses).toBe(1)
+    })
+
+    it('should let a per-call ttl override the default', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      const cache = new SuperLRU<string, string>({ maxSize: 5, defaultTtl: 100 })
+
+      await cache.set('short', 'value1', { ttl: 10 })
+      await cache.set('long', 'value2', { ttl: 1000 })
+      await cache.set('default', 'value3')
+
+      now.mockReturnValue(1050)
+      expect(cache.has('short')).toBe(false)
+      expect(cache.has('long')).toBe(true)
+      expect(cache.has('default')).toBe(true)
+
+      now.mockReturnValue(1500)
+      expect(cache.has('long')).toBe(true)
+      expect(cache.has('default')).toBe(false)
+    })
+
+    it('should never expire entries without a ttl', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      const cache = new SuperLRU<string, string>({ maxSize: 5 })
+
+      await cache.set('key1', 'value1')
+      now.mockReturnValue(1000 + 365 * 24 * 60 * 60 * 1000)
+      expect(await cache.get('key1')).toBe('value1')
+    })
+
+    it('should skip expired entries in allEntries()', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      const cache = new SuperLRU<string, string>({ maxSize: 5 })
+
+      await cache.set('key1', 'value1', { ttl: 10 })
+      await cache.set('key2', 'value2')
+
+      now.mockReturnValue(2000)
+      expect(cache.allEntries()).toEqual([['key2', 'value2']])
+    })
+
+    it('should call onEvicted with the expired reason', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      const onEvicted = jest.fn()
+      const cache = new SuperLRU<string, string>({ maxSize: 5, onEvicted })
+
+      await cache.set('key1', 'value1', { ttl: 10 })
+      now.mockReturnValue(2000)
+      expect(cache.has('key1')).toBe(false)
+
+      expect(onEvicted).toHaveBeenCalledTimes(1)
+      expect(onEvicted).toHaveBeenCalledWith('key1', 'value1', 'expired')
+    })
   })
 
   describe('allEntries functionality', () => {
@@ -311,6 +894,141 @@ describe('SuperLRU Cache Integration Tests', () => {
     })
   })
 
+  describe('Iteration and peek', () => {
+    const createCache = async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 5 })
+      await cache.set('key1', 'value1')
+      await cache.set('key2', 'value2')
+      await cache.set('key3', 'value3')
+      await cache.get('key1')
+      return cache
+    }
+
+    it('should iterate from most to least recently used', async () => {
+      const cache = await createCache()
+
+      expect(Array.from(cache.keys())).toEqual(['key1', 'key3', 'key2'])
+      expect(Array.from(cache.values())).toEqual(['value1', 'value3', 'value2'])
+      expect(Array.from(cache.entries())).toEqual([
+        ['key1', 'value1'],
+        ['key3', 'value3'],
+        ['key2', 'value2']
+      ])
+      expect(Array.from(cache)).toEqual(Array.from(cache.entries()))
+    })
+
+    it('should iterate keys from least to most recently used with rkeys', async () => {
+      const cache = await createCache()
+      expect(Array.from(cache.rkeys())).toEqual(['key2', 'key3', 'key1'])
+    })
+
+    it('should not change the recency order or counters while iterating', async () => {
+      const cache = await createCache()
+      // decoding values is timed, so only the counters must stay the same
+      const { latency, ...before } = cache.stats()
+
+      for (const _ of cache) {
+        // drain the iterator
+      }
+      Array.from(cache.values())
+
+      expect(Array.from(cache.keys())).toEqual(['key1', 'key3', 'key2'])
+      expect(cache.stats()).toMatchObject(before)
+    })
+
+    it('should decode values lazily', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 5, encrypt: true })
+      await cache.set('key1', 'value1')
+      await cache.set('key2', 'value2')
+      const valueOut = jest.spyOn(cache as any, 'valueOut')
+
+      const values = cache.values()
+      expect(values.next().value).toBe('value2')
+      expect(valueOut).toHaveBeenCalledTimes(1)
+    })
+
+    it('should skip expired entries', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      const cache = new SuperLRU<string, string>({ maxSize: 5 })
+      await cache.set('key1', 'value1', { ttl: 100 })
+      await cache.set('key2', 'value2')
+
+      now.mockReturnValue(1100)
+      expect(Array.from(cache.keys())).toEqual(['key2'])
+      expect(Array.from(cache.rkeys())).toEqual(['key2'])
+      expect(cache.peek('key1')).toBeNull()
+      now.mockRestore()
+    })
+
+    it('should keep iterating when entries are removed along the way', async () => {
+      const cache = await createCache()
+      const seen: string[] = []
+      for (const key of cache.keys()) {
+        seen.push(key)
+        await cache.unset(key)
+      }
+      expect(seen).toEqual(['key1', 'key3', 'key2'])
+      expect(cache.size).toBe(0)
+    })
+
+    it('should peek without promoting the entry or counting a hit', async () => {
+      const cache = await createCache()
+      // decoding values is timed, so only the counters must stay the same
+      const { latency, ...before } = cache.stats()
+
+      expect(cache.peek('key2')).toBe('value2')
+      expect(cache.peek('missing')).toBeNull()
+
+      expect(Array.from(cache.rkeys())[0]).toBe('key2')
+      expect(cache.stats()).toMatchObject(before)
+    })
+  })
+
+  describe('clear', () => {
+    it('should empty memory and keep working afterwards', async () => {
+      const onEvicted = jest.fn()
+      const cache = new SuperLRU<string, string>({ maxSize: 2, onEvicted })
+      await cache.set('key1', 'value1')
+      await cache.set('key2', 'value2')
+
+      await cache.clear()
+
+      expect(cache.size).toBe(0)
+      expect(cache.stats().bytes).toBe(0)
+      expect(Array.from(cache.keys())).toEqual([])
+      expect(await cache.get('key1')).toBeNull()
+      expect(onEvicted).not.toHaveBeenCalled()
+
+      await cache.set('key3', 'value3')
+      await cache.set('key4', 'value4')
+      await cache.set('key5', 'value5')
+      expect(Array.from(cache.keys())).toEqual(['key5', 'key4'])
+      expect(onEvicted).toHaveBeenCalledWith('key3', 'value3', 'capacity')
+    })
+
+    it('should call onEvicted for every entry with notify', async () => {
+      const onEvicted = jest.fn()
+      const cache = new SuperLRU<string, string>({ maxSize: 5, onEvicted })
+      await cache.set('key1', 'value1')
+      await cache.set('key2', 'value2')
+
+      await cache.clear({ notify: true })
+
+      expect(onEvicted.mock.calls).toEqual([
+        ['key1', 'value1', 'cleared'],
+        ['key2', 'value2', 'cleared']
+      ])
+    })
+
+    it('should require a namespace to clear remote keys, without touching memory', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 5 })
+      await cache.set('key1', 'value1')
+
+      await expect(cache.clear({ remote: true })).rejects.toThrow('clear requires a namespace to be defined')
+      expect(cache.size).toBe(1)
+    })
+  })
+
   describe('Edge cases', () => {
     it('should handle empty cache correctly', () => {
       const cache = new SuperLRU<string, string>({ maxSize: 5 })
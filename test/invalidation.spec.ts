@@ -0,0 +1,258 @@
+import { LocalInvalidationBus, MemoryAdapter, RedisAdapter, RedisInvalidationBus, SuperLRU, md5 } from '../src'
+
+describe('Cross-instance invalidation', () => {
+  const createReplicas = (options = {}) => {
+    const storage = new MemoryAdapter()
+    const bus = new LocalInvalidationBus()
+    const create = (onEvicted?: jest.Mock) =>
+      new SuperLRU<string, string>({ maxSize: 5, writeThrough: storage, invalidation: bus, onEvicted, ...options })
+    return { storage, bus, create }
+  }
+
+  describe('LocalInvalidationBus', () => {
+    it('should deliver messages to every subscriber until it unsubscribes', async () => {
+      const bus = new LocalInvalidationBus()
+      const first = jest.fn()
+      const second = jest.fn()
+      const unsubscribe = await bus.subscribe(first)
+      await bus.subscribe(second)
+
+      await bus.publish({ source: 'a', keys: ['k'] })
+      await unsubscribe()
+      await bus.publish({ source: 'a', keys: ['l'] })
+
+      expect(first).toHaveBeenCalledTimes(1)
+      expect(first).toHaveBeenCalledWith({ source: 'a', keys: ['k'] })
+      expect(second).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('RedisInvalidationBus', () => {
+    it('should publish JSON and subscribe on a duplicated connection', async () => {
+      let deliver: (raw: string) => void = () => undefined
+      const subscriber = {
+        on: jest.fn(),
+        connect: jest.fn().mockResolvedValue(undefined),
+        subscribe: jest.fn(async (_: string, listener: (raw: string) => void) => {
+          deliver = listener
+        }),
+        unsubscribe: jest.fn().mockResolvedValue(undefined),
+        quit: jest.fn().mockResolvedValue(undefined)
+      }
+      const client = {
+        publish: jest.fn().mockResolvedValue(1),
+        duplicate: jest.fn(() => subscriber)
+      }
+      const bus = new RedisInvalidationBus(client as any, { channel: 'invalidate' })
+      const listener = jest.fn()
+
+      await bus.publish({ source: 'a', keys: ['k'] })
+      expect(client.publish).toHaveBeenCalledWith('invalidate', JSON.stringify({ source: 'a', keys: ['k'] }))
+
+      const unsubscribe = await bus.subscribe(listener)
+      expect(subscriber.connect).toHaveBeenCalled()
+      deliver('{"source":"b","keys":["k"]}')
+      deliver('not json')
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith({ source: 'b', keys: ['k'] })
+
+      await unsubscribe()
+      expect(subscriber.unsubscribe).toHaveBeenCalledWith('invalidate')
+      expect(subscriber.quit).toHaveBeenCalled()
+    })
+
+    it('should pass errors of the subscribed connection to the error listener', async () => {
+      const subscriber = {
+        on: jest.fn(),
+        connect: jest.fn().mockResolvedValue(undefined),
+        subscribe: jest.fn().mockResolvedValue(undefined)
+      }
+      const bus = new RedisInvalidationBus({ duplicate: () => subscriber } as any)
+      const onError = jest.fn()
+      await bus.subscribe(jest.fn(), onError)
+
+      expect(subscriber.on).toHaveBeenCalledWith('error', expect.any(Function))
+      const error = new Error('connection lost')
+      subscriber.on.mock.calls[0][1](error)
+      expect(onError).toHaveBeenCalledWith(error)
+    })
+  })
+
+  describe('SuperLRU with invalidation', () => {
+    it('should drop other instances copies when a key is set', async () => {
+      const { create } = createReplicas()
+      const a = create()
+      const b = create()
+
+      await a.set('key1', 'v1')
+      expect(await b.get('key1')).toBe('v1')
+
+      await a.set('key1', 'v2')
+      expect(b.has('key1')).toBe(false)
+      expect(await b.get('key1')).toBe('v2')
+    })
+
+    it('should ignore its own messages', async () => {
+      const { create } = createReplicas()
+      const onEvicted = jest.fn()
+      const a = create(onEvicted)
+
+      await a.set('key1', 'v1')
+      await a.set('key2', 'v2')
+
+      expect(a.has('key1')).toBe(true)
+      expect(onEvicted).not.toHaveBeenCalled()
+    })
+
+    it('should drop other instances copies when a key is unset, reporting them as invalidated', async () => {
+      const { create } = createReplicas()
+      const onEvicted = jest.fn()
+      const a = create()
+      const b = create(onEvicted)
+
+      await b.set('key1', 'v1')
+      await a.unset('key1')
+
+      expect(b.has('key1')).toBe(false)
+      expect(onEvicted).toHaveBeenCalledWith('key1', 'v1', 'invalidated')
+      expect(await b.get('key1')).toBeNull()
+    })
+
+    it('should not write invalidated keys back to remote storage', async () => {
+      const { storage, create } = createReplicas()
+      const a = create()
+      const b = create()
+
+      await b.set('key1', 'v1')
+      const set = jest.spyOn(storage, 'set')
+      const remove = jest.spyOn(storage, 'delete')
+      await a.set('key1', 'v2')
+
+      expect(set).toHaveBeenCalledTimes(1)
+      expect(remove).not.toHaveBeenCalled()
+    })
+
+    it('should keep invalidating entries that share a remote key after one of them leaves', async () => {
+      const storage = new MemoryAdapter()
+      const bus = new LocalInvalidationBus()
+      const a = new SuperLRU<string | number, string>({ maxSize: 5, writeThrough: storage, invalidation: bus })
+      const b = new SuperLRU<string | number, string>({ maxSize: 5, writeThrough: storage, invalidation: bus })
+
+      // '1' and 1 are different entries in memory but share a remote key by default
+      await b.set('1', 'string')
+      await b.set(1, 'number')
+      await b.unset('1')
+      await a.set(1, 'changed')
+
+      expect(b.has(1)).toBe(false)
+      expect(await b.get(1)).toBe('changed')
+    })
+
+    it('should only invalidate keys of the same namespace', async () => {
+      const storage = new MemoryAdapter()
+      const bus = new LocalInvalidationBus()
+      const users = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: storage,
+        invalidation: bus,
+        namespace: 'users'
+      })
+      const orders = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: storage,
+        invalidation: bus,
+        namespace: 'orders'
+      })
+
+      await orders.set('key1', 'order')
+      await users.set('key1', 'user')
+
+      expect(orders.has('key1')).toBe(true)
+    })
+
+    it('should publish write-behind changes once they are flushed', async () => {
+      const { bus, create } = createReplicas({ writeBehind: { flushInterval: 60000 } })
+      const publish = jest.spyOn(bus, 'publish')
+      const a = create()
+      const b = create()
+
+      await b.set('key1', 'v1')
+      await b.flush()
+      publish.mockClear()
+
+      await a.set('key1', 'v2')
+      expect(publish).not.toHaveBeenCalled()
+      expect(b.has('key1')).toBe(true)
+
+      await a.flush()
+      expect(publish).toHaveBeenCalledWith({ source: a.instanceId, keys: [md5('key1')] })
+      expect(b.has('key1')).toBe(false)
+      await a.close()
+      await b.close()
+    })
+
+    it('should ignore messages that are not shaped like its own', async () => {
+      let deliver: (message: any) => void = () => undefined
+      const bus = {
+        publish: jest.fn().mockResolvedValue(undefined),
+        subscribe: jest.fn(async (listener: (message: any) => void) => {
+          deliver = listener
+          return async () => undefined
+        })
+      }
+      const cache = new SuperLRU<string, string>({ maxSize: 5, writeThrough: new MemoryAdapter(), invalidation: bus })
+      await cache.set('key1', 'v1')
+
+      for (const message of [{ hello: 1 }, { source: 'b', keys: 'key1' }, { source: 1, keys: [] }, null]) {
+        expect(() => deliver(message)).not.toThrow()
+      }
+      expect(cache.has('key1')).toBe(true)
+    })
+
+    it('should stop receiving messages after close', async () => {
+      const { create } = createReplicas()
+      const a = create()
+      const b = create()
+
+      await b.set('key1', 'v1')
+      await b.close()
+      await a.set('key1', 'v2')
+
+      expect(b.has('key1')).toBe(true)
+    })
+
+    it('should report publish failures without failing the write', async () => {
+      const { bus, create } = createReplicas()
+      const error = new Error('publish failed')
+      jest.spyOn(bus, 'publish').mockRejectedValue(error)
+      const a = create()
+      const onError = jest.fn()
+      a.on('invalidationError', onError)
+
+      await a.set('key1', 'v1')
+      await new Promise((resolve) => setImmediate(resolve))
+
+      expect(onError).toHaveBeenCalledWith(error, [md5('key1')])
+    })
+
+    it('should use Redis pub/sub on the write-through client with invalidation: true', () => {
+      const client = {
+        publish: jest.fn(),
+        duplicate: jest.fn(() => ({
+          on: jest.fn(),
+          connect: jest.fn().mockResolvedValue(undefined),
+          subscribe: jest.fn().mockResolvedValue(undefined)
+        }))
+      }
+      new SuperLRU({ maxSize: 5, writeThrough: new RedisAdapter(client as any), invalidation: true })
+
+      expect(client.duplicate).toHaveBeenCalled()
+    })
+
+    it('should require Redis storage for invalidation: true', () => {
+      expect(() => new SuperLRU({ maxSize: 5, writeThrough: new MemoryAdapter(), invalidation: true })).toThrow(
+        'invalidation requires Redis write-through storage, or pass an InvalidationBus'
+      )
+    })
+  })
+})
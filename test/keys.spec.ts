@@ -0,0 +1,184 @@
+import crypto from 'crypto'
+import { MemoryAdapter, SuperLRU, canonicalKeySerializer, md5 } from '../src'
+
+describe('Key serialization', () => {
+  describe('canonicalKeySerializer', () => {
+    it('should ignore the order of object properties, at any depth', () => {
+      expect(canonicalKeySerializer({ a: 1, b: { c: 2, d: 3 } })).toBe(
+        canonicalKeySerializer({ b: { d: 3, c: 2 }, a: 1 })
+      )
+      expect(canonicalKeySerializer({ b: 2, a: 1 })).toBe('{"a":1,"b":2}')
+    })
+
+    it('should keep array order', () => {
+      expect(canonicalKeySerializer([1, 2])).not.toBe(canonicalKeySerializer([2, 1]))
+    })
+
+    it('should tell keys of different types apart', () => {
+      expect(canonicalKeySerializer('1')).not.toBe(canonicalKeySerializer(1))
+      expect(canonicalKeySerializer('true')).not.toBe(canonicalKeySerializer(true))
+      expect(canonicalKeySerializer('null')).not.toBe(canonicalKeySerializer(null))
+      const date = new Date(0)
+      expect(canonicalKeySerializer(date)).not.toBe(canonicalKeySerializer(date.toISOString()))
+      expect(canonicalKeySerializer(1n)).not.toBe(canonicalKeySerializer('1'))
+    })
+
+    it('should tell Maps and Sets with different contents apart', () => {
+      expect(canonicalKeySerializer(new Map([['a', 1]]))).not.toBe(canonicalKeySerializer(new Map([['b', 1]])))
+      expect(canonicalKeySerializer(new Map())).not.toBe(canonicalKeySerializer({}))
+      expect(canonicalKeySerializer(new Set([1]))).not.toBe(canonicalKeySerializer(new Set([2])))
+      expect(canonicalKeySerializer({ tags: new Set(['a']) })).toBe(canonicalKeySerializer({ tags: new Set(['a']) }))
+    })
+
+    it('should sort objects that use the tag property themselves', () => {
+      expect(canonicalKeySerializer({ $t: 'x', a: 1 })).toBe(canonicalKeySerializer({ a: 1, $t: 'x' }))
+    })
+
+    it('should reject keys containing functions or symbols', () => {
+      expect(() => canonicalKeySerializer({ fn: () => 1 })).toThrow('cannot serialize a key containing a function')
+      expect(() => canonicalKeySerializer([Symbol('a')])).toThrow('cannot serialize a key containing a symbol')
+    })
+  })
+
+  describe('in memory', () => {
+    it('should find object keys by structure', async () => {
+      const cache = new SuperLRU<object, string>({ maxSize: 5 })
+      await cache.set({ id: 1, type: 'user' }, 'alice')
+
+      expect(cache.has({ type: 'user', id: 1 })).toBe(true)
+      expect(await cache.get({ type: 'user', id: 1 })).toBe('alice')
+      expect(cache.has({ type: 'user', id: 2 })).toBe(false)
+    })
+
+    it('should replace the value of a structurally equal key', async () => {
+      const cache = new SuperLRU<object, string>({ maxSize: 5 })
+      await cache.set({ a: 1, b: 2 }, 'first')
+      await cache.set({ b: 2, a: 1 }, 'second')
+
+      expect(cache.size).toBe(1)
+      expect(cache.peek({ a: 1, b: 2 })).toBe('second')
+
+      await cache.unset({ b: 2, a: 1 })
+      expect(cache.size).toBe(0)
+    })
+
+    it('should share a pending load between structurally equal keys', async () => {
+      const loader = jest.fn(async (key: { id: number }) => `user${key.id}`)
+      const cache = new SuperLRU<{ id: number; v?: number }, string>({ maxSize: 5 })
+
+      const [first, second] = await Promise.all([
+        cache.getOrLoad({ id: 1, v: 2 }, loader),
+        cache.getOrLoad({ v: 2, id: 1 }, loader)
+      ])
+
+      expect(first).toBe('user1')
+      expect(second).toBe('user1')
+      expect(loader).toHaveBeenCalledTimes(1)
+    })
+
+    it('should use a custom key serializer', async () => {
+      const cache = new SuperLRU<{ id: number; name: string }, string>({
+        maxSize: 5,
+        keySerializer: (key: any) => String(key.id)
+      })
+      await cache.set({ id: 1, name: 'Alice' }, 'value')
+
+      expect(cache.peek({ id: 1, name: 'alice' })).toBe('value')
+    })
+  })
+
+  describe('in remote storage', () => {
+    it('should keep the remote keys of earlier versions for strings and numbers', async () => {
+      const storage = new MemoryAdapter()
+      const cache = new SuperLRU<string | number, string>({ maxSize: 5, writeThrough: storage })
+      await cache.set('key1', 'value1')
+      await cache.set(42, 'value2')
+
+      expect((await storage.keys('')).sort()).toEqual([md5('key1'), md5('42')].sort())
+    })
+
+    it('should tell string and number keys apart remotely with canonicalKeySerializer', async () => {
+      const storage = new MemoryAdapter()
+      const cache = new SuperLRU<string | number, string>({
+        maxSize: 5,
+        writeThrough: storage,
+        keySerializer: canonicalKeySerializer
+      })
+      await cache.set('1', 'string')
+      await cache.set(1, 'number')
+
+      expect((await storage.keys('')).sort()).toEqual([md5('"1"'), md5('1')].sort())
+    })
+
+    it('should give structurally equal keys the same remote key', async () => {
+      const storage = new MemoryAdapter()
+      const writer = new SuperLRU<object, string>({ maxSize: 5, writeThrough: storage, compress: false })
+      await writer.set({ a: 1, b: 2 }, 'value')
+
+      expect(await storage.keys('')).toEqual([md5('{"a":1,"b":2}')])
+
+      const reader = new SuperLRU<object, string>({ maxSize: 5, writeThrough: storage, compress: false })
+      expect(await reader.get({ b: 2, a: 1 })).toBe('value')
+    })
+
+    it('should hash remote keys with sha256', async () => {
+      const storage = new MemoryAdapter()
+      const cache = new SuperLRU<string, string>({ maxSize: 5, writeThrough: storage, keyHash: 'sha256' })
+      await cache.set('key1', 'value1')
+
+      const hash = crypto.createHash('sha256').update('key1').digest('hex')
+      expect(await storage.keys('')).toEqual([hash])
+    })
+
+    it('should leave remote keys readable without hashing', async () => {
+      const storage = new MemoryAdapter()
+      const cache = new SuperLRU<object, string>({
+        maxSize: 5,
+        writeThrough: storage,
+        namespace: 'users',
+        keyHash: 'none'
+      })
+      await cache.set({ id: 7 }, 'value')
+
+      expect(await storage.keys('')).toEqual(['superlru:users:{"id":7}'])
+    })
+
+    it('should hash remote keys with a custom function', async () => {
+      const storage = new MemoryAdapter()
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: storage,
+        keyHash: (key) => `custom-${key.length}`
+      })
+      await cache.set('key1', 'value1')
+
+      expect(await storage.keys('')).toEqual(['custom-4'])
+    })
+
+    it('should reject an unknown key hash', () => {
+      expect(() => new SuperLRU({ maxSize: 5, keyHash: 'sha1' as any })).toThrow('unknown key hash "sha1"')
+    })
+  })
+
+  it('should keep symbol keys apart by identity', async () => {
+    const cache = new SuperLRU<symbol, string>({ maxSize: 5 })
+    const first = Symbol('key')
+    await cache.set(first, 'value')
+
+    expect(cache.peek(first)).toBe('value')
+    expect(cache.peek(Symbol('key'))).toBeNull()
+  })
+
+  it('should reject symbol keys with remote storage before storing them', async () => {
+    const storage = new MemoryAdapter()
+    const cache = new SuperLRU<symbol, string>({ maxSize: 5, writeThrough: storage })
+    const key = Symbol('key')
+    const message = 'symbol keys cannot be used with remote storage or invalidation'
+
+    await expect(cache.set(key, 'value')).rejects.toThrow(message)
+    await expect(cache.setMany([[key, 'value']])).rejects.toThrow(message)
+    await expect(cache.get(key)).rejects.toThrow(message)
+    expect(cache.peek(key)).toBeNull()
+    expect(await storage.keys('')).toEqual([])
+  })
+})
@@ -0,0 +1,97 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+import { MetricsRegistry, SuperLRU } from '../src'
+
+describe('MetricsRegistry', () => {
+  async function populated(): Promise<SuperLRU<string, string>> {
+    const cache = new SuperLRU<string, string>({ maxSize: 1 })
+    await cache.set('a', '1')
+    await cache.set('b', '2')
+    await cache.get('b')
+    await cache.get('a')
+    return cache
+  }
+
+  it('should render counters and gauges labelled by cache name', async () => {
+    const registry = new MetricsRegistry()
+    registry.register('users', await populated())
+    registry.register('sessions', new SuperLRU<string, string>({ maxSize: 5 }))
+
+    const text = registry.render()
+
+    expect(text).toContain('# HELP superlru_hits_total Reads served from memory.\n# TYPE superlru_hits_total counter\n')
+    expect(text).toContain('superlru_hits_total{cache="users"} 1\n')
+    expect(text).toContain('superlru_hits_total{cache="sessions"} 0\n')
+    expect(text).toContain('superlru_misses_total{cache="users"} 1\n')
+    expect(text).toContain('superlru_evictions_total{cache="users",reason="capacity"} 1\n')
+    expect(text).toContain('superlru_remote_errors_total{cache="users"} 0\n')
+    expect(text).toContain('# TYPE superlru_size gauge\n')
+    expect(text).toContain('superlru_size{cache="users"} 1\n')
+    expect(text).toMatch(/superlru_bytes\{cache="users"\} \d+\n/)
+    expect(text).toContain('superlru_duration_seconds_count{cache="users",operation="compression"} 3\n')
+    expect(text.match(/^# TYPE superlru_hits_total/gm)).toHaveLength(1)
+  })
+
+  it('should keep counters monotonic when the statistics are flushed', async () => {
+    const cache = await populated()
+    const registry = new MetricsRegistry({ prefix: 'app_cache' })
+    registry.register('users', cache)
+
+    cache.stats(true)
+    await cache.get('b')
+
+    expect(registry.render()).toContain('app_cache_hits_total{cache="users"} 2\n')
+  })
+
+  it('should escape label values', () => {
+    const registry = new MetricsRegistry()
+    registry.register('a "quoted"\\name', new SuperLRU<string, string>({ maxSize: 1 }))
+
+    expect(registry.render()).toContain('superlru_size{cache="a \\"quoted\\"\\\\name"} 0\n')
+  })
+
+  it('should refuse duplicate names and unregister caches', () => {
+    const registry = new MetricsRegistry()
+    const unregister = registry.register('users', new SuperLRU<string, string>({ maxSize: 1 }))
+
+    expect(() => registry.register('users', new SuperLRU<string, string>({ maxSize: 1 }))).toThrow(
+      'a cache named "users" is already registered'
+    )
+    unregister()
+    expect(registry.render()).not.toContain('cache="users"')
+    registry.register('users', new SuperLRU<string, string>({ maxSize: 1 }))
+    expect(registry.unregister('users')).toBe(true)
+    expect(registry.unregister('users')).toBe(false)
+  })
+
+  it('should serve the metrics over http', async () => {
+    const registry = new MetricsRegistry()
+    registry.register('users', await populated())
+    const server = http.createServer(registry.handler())
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+
+    try {
+      const { status, type, body } = await new Promise<{ status?: number; type?: string; body: string }>(
+        (resolve, reject) => {
+          http
+            .get({ host: '127.0.0.1', port, path: '/metrics' }, (response) => {
+              let body = ''
+              response.setEncoding('utf8')
+              response.on('data', (chunk) => (body += chunk))
+              response.on('end', () =>
+                resolve({ status: response.statusCode, type: response.headers['content-type'], body })
+              )
+            })
+            .on('error', reject)
+        }
+      )
+
+      expect(status).toBe(200)
+      expect(type).toBe('text/plain; version=0.0.4; charset=utf-8')
+      expect(body).toBe(registry.render())
+    } finally {
+      await new Promise((resolve) => server.close(resolve))
+    }
+  })
+})
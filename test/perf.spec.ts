@@ -216,6 +216,50 @@ describe('SuperLRU Performance Tests', () => {
     })
   })
 
+  describe('Scan resistance', () => {
+    // Reads a hot set of keys while a scan streams one-off keys through the
+    // cache, filling each miss, and returns the hit ratio of the hot reads
+    async function hotHitRatio(evictionPolicy: 'lru' | 'w-tinylfu'): Promise<number> {
+      const cache = new SuperLRU<string, string>({ maxSize: 100, compress: false, evictionPolicy })
+      const hotKeys = 50
+      const rounds = 5000
+      let hits = 0
+      for (let i = 0; i < rounds; i++) {
+        const hot = `hot-${i % hotKeys}`
+        if ((await cache.get(hot)) != null) {
+          hits++
+        } else {
+          await cache.set(hot, hot)
+        }
+        // three one-off keys per hot read, more than the cache holds per pass over the hot set
+        for (let j = 0; j < 3; j++) {
+          const scan = `scan-${i}-${j}`
+          if ((await cache.get(scan)) == null) {
+            await cache.set(scan, scan)
+          }
+        }
+      }
+      return hits / rounds
+    }
+
+    it('should keep a hot set cached through a scan with W-TinyLFU', async () => {
+      let lruRatio = 0
+      let tinyLfuRatio = 0
+      const lruTime = await measureTime(async () => {
+        lruRatio = await hotHitRatio('lru')
+      })
+      const tinyLfuTime = await measureTime(async () => {
+        tinyLfuRatio = await hotHitRatio('w-tinylfu')
+      })
+
+      console.log(`Hot set hit ratio during a scan, LRU: ${(lruRatio * 100).toFixed(1)}% in ${lruTime}ms`)
+      console.log(`Hot set hit ratio during a scan, W-TinyLFU: ${(tinyLfuRatio * 100).toFixed(1)}% in ${tinyLfuTime}ms`)
+
+      expect(tinyLfuRatio).toBeGreaterThan(0.8)
+      expect(tinyLfuRatio).toBeGreaterThan(lruRatio)
+    })
+  })
+
   describe('Memory usage simulation', () => {
     it('should simulate memory usage patterns', async () => {
       // Skip this test in CI environments
@@ -339,24 +383,22 @@ describe('SuperLRU Performance Tests', () => {
           array: [1, 2, 3],
           object: { a: 1, b: 2 }
         },
-        fn: undefined, // Functions will be lost in JSON serialization
-        date: new Date('2023-01-01T00:00:00Z') // Dates will be serialized
+        fn: undefined, // undefined fields are preserved by the serializer
+        date: new Date('2023-01-01T00:00:00Z') // Dates are restored as Dates
       }
 
       await cache.set('complex', complexValue)
 
       const retrieved = await cache.get('complex')
 
-      // Date objects become strings when serialized/deserialized with JSON
-      const dateString = complexValue.date.toISOString()
-
       expect(retrieved.string).toBe(complexValue.string)
       expect(retrieved.number).toBe(complexValue.number)
       expect(retrieved.boolean).toBe(complexValue.boolean)
       expect(retrieved.nested.array).toEqual(complexValue.nested.array)
       expect(retrieved.nested.object).toEqual(complexValue.nested.object)
-      expect(retrieved.fn).toBeUndefined()
-      expect(retrieved.date).toBe(dateString)
+      expect(retrieved).toHaveProperty('fn', undefined)
+      expect(retrieved.date).toBeInstanceOf(Date)
+      expect(retrieved.date.toISOString()).toBe(complexValue.date.toISOString())
     })
   })
 })
\ No newline at end of file
@@ -0,0 +1,176 @@
+import { EvictionPolicy, FrequencySketch, LruPolicy, PolicyNode, SuperLRU, TinyLfuPolicy } from '../src'
+
+describe('Eviction policies', () => {
+  function node(key: string): PolicyNode<string> {
+    return { key, prev: null, next: null, list: null }
+  }
+
+  describe('LRU', () => {
+    it('should be the default and evict the least recently used key', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 2, compress: false })
+      await cache.set('a', '1')
+      await cache.set('b', '2')
+      await cache.get('a')
+      await cache.set('c', '3')
+
+      expect(cache.has('a')).toBe(true)
+      expect(cache.has('b')).toBe(false)
+      expect(Array.from(cache.keys())).toEqual(['c', 'a'])
+    })
+  })
+
+  describe('FIFO', () => {
+    it('should evict in insertion order regardless of reads and overwrites', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 2, compress: false, evictionPolicy: 'fifo' })
+      await cache.set('a', '1')
+      await cache.set('b', '2')
+      await cache.get('a')
+      await cache.set('a', '1b')
+      await cache.set('c', '3')
+
+      expect(cache.has('a')).toBe(false)
+      expect(Array.from(cache.rkeys())).toEqual(['b', 'c'])
+    })
+  })
+
+  describe('LFU', () => {
+    it('should evict the least frequently used key', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 3, compress: false, evictionPolicy: 'lfu' })
+      await cache.set('a', '1')
+      await cache.set('b', '2')
+      await cache.set('c', '3')
+      await cache.get('a')
+      await cache.get('a')
+      await cache.get('c')
+      await cache.set('d', '4')
+
+      expect(cache.has('b')).toBe(false)
+      expect(Array.from(cache.keys())).toEqual(['a', 'c', 'd'])
+    })
+
+    it('should break ties by evicting the least recently used key', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 2, compress: false, evictionPolicy: 'lfu' })
+      await cache.set('a', '1')
+      await cache.set('b', '2')
+      await cache.get('b')
+      await cache.get('a')
+      await cache.set('c', '3')
+
+      expect(cache.has('b')).toBe(false)
+      expect(Array.from(cache.rkeys())).toEqual(['c', 'a'])
+    })
+
+    it('should stop tracking removed keys', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 2, compress: false, evictionPolicy: 'lfu' })
+      await cache.set('a', '1')
+      await cache.get('a')
+      await cache.unset('a')
+      await cache.set('b', '2')
+      await cache.set('c', '3')
+      await cache.set('d', '4')
+
+      expect(Array.from(cache.keys())).toEqual(['d', 'c'])
+      await cache.clear()
+      expect(Array.from(cache.keys())).toEqual([])
+    })
+  })
+
+  describe('W-TinyLFU', () => {
+    it('should reject a newcomer seen less often than the entry it would replace', () => {
+      const policy = new TinyLfuPolicy<string>({ capacity: 3 })
+      const popular = node('popular')
+      policy.add(popular)
+      policy.touch(popular)
+      policy.touch(popular)
+      policy.add(node('x'))
+      policy.add(node('y'))
+
+      // 'x' was pushed out of the window and competes with 'popular' for its place
+      expect(policy.victim()!.key).toBe('x')
+      expect(policy.victim()!.key).toBe('popular')
+    })
+
+    it('should admit a newcomer seen more often than the main victim', () => {
+      const policy = new TinyLfuPolicy<string>({ capacity: 3 })
+      policy.add(node('a'))
+      policy.add(node('b'))
+      for (let i = 0; i < 3; i++) {
+        const returning = node('c')
+        policy.add(returning)
+        policy.remove(returning)
+      }
+      policy.add(node('c'))
+      policy.add(node('d'))
+
+      expect(policy.victim()!.key).toBe('a')
+    })
+
+    it('should promote keys read in probation to the protected segment', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 10, compress: false, evictionPolicy: 'w-tinylfu' })
+      for (const key of ['a', 'b', 'c']) {
+        await cache.set(key, key)
+      }
+      await cache.get('a')
+
+      expect(Array.from(cache.keys())).toEqual(['c', 'a', 'b'])
+      expect(Array.from(cache.rkeys())).toEqual(['b', 'a', 'c'])
+    })
+
+    it('should keep the cache within maxSize', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 20, compress: false, evictionPolicy: 'w-tinylfu' })
+      for (let i = 0; i < 200; i++) {
+        await cache.set(`key-${i % 30}`, `${i}`)
+        await cache.get(`key-${i % 7}`)
+      }
+
+      expect(cache.size).toBe(20)
+      expect(Array.from(cache.keys())).toHaveLength(20)
+    })
+  })
+
+  describe('FrequencySketch', () => {
+    it('should estimate frequencies, capped at 15', () => {
+      const sketch = new FrequencySketch<string>(100)
+      for (let i = 0; i < 20; i++) {
+        sketch.increment('often')
+      }
+      sketch.increment('once')
+
+      expect(sketch.frequency('often')).toBe(15)
+      expect(sketch.frequency('once')).toBe(1)
+      expect(sketch.frequency('never')).toBe(0)
+    })
+
+    it('should halve the counters once the sample size is reached', () => {
+      const sketch = new FrequencySketch<string>(16)
+      for (let i = 0; i < 8; i++) {
+        sketch.increment('key')
+      }
+      for (let i = 0; i < 151; i++) {
+        sketch.increment('other')
+      }
+      expect(sketch.frequency('key')).toBe(8)
+
+      sketch.increment('other')
+      expect(sketch.frequency('key')).toBe(4)
+      expect(sketch.frequency('other')).toBe(7)
+    })
+  })
+
+  it('should accept a custom policy', async () => {
+    const policy: EvictionPolicy<string> = new LruPolicy()
+    const victim = jest.spyOn(policy, 'victim')
+    const cache = new SuperLRU<string, string>({ maxSize: 1, compress: false, evictionPolicy: policy })
+    await cache.set('a', '1')
+    await cache.set('b', '2')
+
+    expect(victim).toHaveBeenCalledTimes(1)
+    expect(cache.has('a')).toBe(false)
+  })
+
+  it('should throw on an unknown policy name', () => {
+    expect(() => new SuperLRU({ maxSize: 1, evictionPolicy: 'random' as any })).toThrow(
+      'unknown eviction policy "random"'
+    )
+  })
+})
@@ -0,0 +1,250 @@
+import { MemoryAdapter, SuperLRU, md5 } from '../src'
+import { WriteBehindQueue } from '../src/queue'
+
+describe('Write-behind', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('WriteBehindQueue', () => {
+    it('should coalesce writes per key and flush them in batches', async () => {
+      const storage = new MemoryAdapter()
+      const setMany = jest.spyOn(storage, 'setMany')
+      const deleteMany = jest.spyOn(storage, 'deleteMany')
+      const queue = new WriteBehindQueue(storage, { batchSize: 2, flushInterval: 60000 }, { onDrop: jest.fn() })
+
+      await queue.set('a', '1', 0)
+      await queue.set('a', '2', 0)
+      await queue.delete('b')
+      expect(queue.length).toBe(2)
+
+      await queue.close()
+      expect(queue.length).toBe(0)
+      expect(setMany).toHaveBeenCalledWith([{ key: 'a', value: '2', ttl: 0 }])
+      expect(deleteMany).toHaveBeenCalledWith(['b'])
+      expect(await storage.get('a')).toBe('2')
+    })
+
+    it('should flush on its interval', async () => {
+      const storage = new MemoryAdapter()
+      const queue = new WriteBehindQueue(storage, { flushInterval: 10 }, { onDrop: jest.fn() })
+
+      await queue.set('a', '1', 0)
+      await new Promise((resolve) => setTimeout(resolve, 50))
+
+      expect(await storage.get('a')).toBe('1')
+      await queue.close()
+    })
+
+    it('should start a flush as soon as a batch is full', async () => {
+      const storage = new MemoryAdapter()
+      const setMany = jest.spyOn(storage, 'setMany')
+      const queue = new WriteBehindQueue(storage, { batchSize: 2, flushInterval: 60000 }, { onDrop: jest.fn() })
+
+      await queue.set('a', '1', 0)
+      expect(setMany).not.toHaveBeenCalled()
+      await queue.set('b', '1', 0)
+      expect(setMany).toHaveBeenCalledTimes(1)
+      await queue.close()
+    })
+
+    it('should count down ttls while writes are queued', async () => {
+      const storage = new MemoryAdapter()
+      const setMany = jest.spyOn(storage, 'setMany')
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      const queue = new WriteBehindQueue(storage, { flushInterval: 60000 }, { onDrop: jest.fn() })
+
+      await queue.set('a', '1', 100)
+      await queue.set('b', '1', 50)
+      now.mockReturnValue(1060)
+      await queue.close()
+
+      expect(setMany).toHaveBeenCalledWith([{ key: 'a', value: '1', ttl: 40 }])
+      expect(await storage.get('b')).toBeNull()
+    })
+
+    it('should retry failed writes and drop them after maxRetries', async () => {
+      const storage = new MemoryAdapter()
+      const error = new Error('connection lost')
+      const setMany = jest.spyOn(storage, 'setMany').mockRejectedValue(error)
+      const onDrop = jest.fn()
+      const queue = new WriteBehindQueue(storage, { maxRetries: 2, flushInterval: 60000 }, { onDrop })
+
+      await queue.set('a', '1', 0)
+      await queue.close()
+
+      expect(setMany).toHaveBeenCalledTimes(3)
+      expect(onDrop).toHaveBeenCalledWith(error, ['a'])
+      expect(queue.length).toBe(0)
+    })
+
+    it('should hold writes without attempting them while storage is unavailable', async () => {
+      const storage = new MemoryAdapter()
+      const setMany = jest.spyOn(storage, 'setMany')
+      const onDrop = jest.fn()
+      let held = true
+      const queue = new WriteBehindQueue(storage, { maxQueueSize: 1, flushInterval: 10 }, { onDrop, held: () => held })
+
+      await queue.set('a', '1', 0)
+      await queue.flush()
+      expect(setMany).not.toHaveBeenCalled()
+      expect(queue.length).toBe(1)
+
+      // a full queue waits for storage to come back
+      const waiting = queue.set('b', '1', 0)
+      await new Promise((resolve) => setTimeout(resolve, 30))
+      expect(setMany).not.toHaveBeenCalled()
+      held = false
+      await waiting
+
+      await queue.close()
+      expect(await storage.getMany(['a', 'b'])).toEqual(['1', '1'])
+      expect(onDrop).not.toHaveBeenCalled()
+    })
+
+    it('should not retry a failed write that was superseded', async () => {
+      const storage = new MemoryAdapter()
+      const setMany = jest.spyOn(storage, 'setMany').mockRejectedValueOnce(new Error('connection lost'))
+      const onDrop = jest.fn()
+      const queue = new WriteBehindQueue(storage, { maxRetries: 0, flushInterval: 60000 }, { onDrop })
+
+      await queue.set('a', '1', 0)
+      const flushed = queue.flush()
+      await queue.set('a', '2', 0)
+      await flushed
+
+      expect(onDrop).not.toHaveBeenCalled()
+      expect(setMany).toHaveBeenLastCalledWith([{ key: 'a', value: '2', ttl: 0 }])
+      expect(await storage.get('a')).toBe('2')
+    })
+
+    it('should wait for a flush when the queue is full', async () => {
+      const storage = new MemoryAdapter()
+      const queue = new WriteBehindQueue(storage, { maxQueueSize: 2, flushInterval: 60000 }, { onDrop: jest.fn() })
+
+      await queue.set('a', '1', 0)
+      await queue.set('b', '1', 0)
+      await queue.set('c', '1', 0)
+
+      expect(await storage.getMany(['a', 'b'])).toEqual(['1', '1'])
+      expect(queue.length).toBe(1)
+      await queue.close()
+    })
+
+    it('should drop the oldest write when the queue is full with drop-oldest', async () => {
+      const storage = new MemoryAdapter()
+      const onDrop = jest.fn()
+      const queue = new WriteBehindQueue(
+        storage,
+        { maxQueueSize: 2, overflow: 'drop-oldest', flushInterval: 60000 },
+        { onDrop }
+      )
+
+      await queue.set('a', '1', 0)
+      await queue.set('b', '1', 0)
+      await queue.set('c', '1', 0)
+      await queue.close()
+
+      expect(onDrop).toHaveBeenCalledWith(expect.any(Error), ['a'])
+      expect(await storage.getMany(['a', 'b', 'c'])).toEqual([null, '1', '1'])
+    })
+
+    it('should reject new keys when the queue is full with throw', async () => {
+      const storage = new MemoryAdapter()
+      const queue = new WriteBehindQueue(
+        storage,
+        { maxQueueSize: 1, overflow: 'throw', flushInterval: 60000 },
+        { onDrop: jest.fn() }
+      )
+
+      await queue.set('a', '1', 0)
+      await queue.set('a', '2', 0)
+      await expect(queue.set('b', '1', 0)).rejects.toThrow('write-behind queue is full (1 keys)')
+      await queue.close()
+    })
+  })
+
+  describe('SuperLRU with writeBehind', () => {
+    it('should require writeThrough', () => {
+      expect(() => new SuperLRU({ maxSize: 1, writeBehind: true })).toThrow(
+        'writeBehind requires writeThrough to be enabled'
+      )
+    })
+
+    it('should return from set before the remote write happens', async () => {
+      const storage = new MemoryAdapter()
+      const setMany = jest.spyOn(storage, 'setMany')
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: storage,
+        writeBehind: { flushInterval: 60000 }
+      })
+
+      await cache.set('key1', 'value1')
+      await cache.set('key2', 'value2', { ttl: 1000 })
+      expect(await storage.get(md5('key1'))).toBeNull()
+
+      await cache.flush()
+      expect(setMany).toHaveBeenCalledTimes(1)
+      expect(await storage.get(md5('key1'))).not.toBeNull()
+      expect(await storage.ttl(md5('key2'))).toBeGreaterThan(0)
+      await cache.close()
+    })
+
+    it('should queue deletes', async () => {
+      const storage = new MemoryAdapter()
+      const cache = new SuperLRU<string, string>({ maxSize: 5, writeThrough: storage, writeBehind: true })
+
+      await cache.set('key1', 'value1')
+      await cache.flush()
+      await cache.unset('key1')
+      expect(await storage.get(md5('key1'))).not.toBeNull()
+
+      await cache.close()
+      expect(await storage.get(md5('key1'))).toBeNull()
+    })
+
+    it('should read queued writes on a memory miss', async () => {
+      const storage = new MemoryAdapter()
+      const get = jest.spyOn(storage, 'get')
+      const cache = new SuperLRU<string, string>({
+        maxSize: 1,
+        writeThrough: storage,
+        writeBehind: { flushInterval: 60000 }
+      })
+
+      await cache.set('key1', 'value1')
+      await cache.set('key2', 'value2') // evicts key1 from memory
+      expect(await cache.get('key1')).toBe('value1')
+
+      await cache.unset('key1')
+      expect(await cache.get('key1')).toBeNull()
+      expect(get).not.toHaveBeenCalled()
+      await cache.close()
+    })
+
+    it('should emit writeBehindError for dropped writes', async () => {
+      const storage = new MemoryAdapter()
+      const error = new Error('connection lost')
+      jest.spyOn(storage, 'setMany').mockRejectedValue(error)
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: storage,
+        writeBehind: { maxRetries: 0 }
+      })
+      const onError = jest.fn()
+      cache.on('writeBehindError', onError)
+
+      await cache.set('key1', 'value1')
+      await cache.close()
+
+      expect(onError).toHaveBeenCalledWith(error, [md5('key1')])
+    })
+
+    it('should resolve flush and close without write-behind', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 5 })
+      await expect(cache.flush()).resolves.toBeUndefined()
+      await expect(cache.close()).resolves.toBeUndefined()
+    })
+  })
+})
@@ -1,12 +1,42 @@
-import { SuperLRU, md5 } from '../src'
+import crypto from 'crypto'
+import { SuperLRU, compressValue, md5, parseKeyId } from '../src'
+
+// Remote values are envelopes holding the serialized key and the value
+const envelope = (key: string, value: string) => JSON.stringify({ $superlru: 1, k: JSON.stringify(key), v: value })
+const remoteValue = (text: string): string => JSON.parse(text).v
 
 // Create a simple mocked Redis client
-const createMockRedisClient = () => ({
-  connect: jest.fn().mockResolvedValue(undefined),
-  set: jest.fn().mockResolvedValue('OK'),
-  get: jest.fn().mockResolvedValue(null),
-  del: jest.fn().mockResolvedValue(1)
-})
+const createMockRedisClient = () => {
+  const pipeline = {
+    set: jest.fn().mockReturnThis(),
+    execAsPipeline: jest.fn().mockResolvedValue([])
+  }
+  const client = {
+    isOpen: false,
+    isReady: false,
+    connect: jest.fn(async () => {
+      client.isOpen = true
+      client.isReady = true
+    }),
+    quit: jest.fn(async () => {
+      client.isOpen = false
+      client.isReady = false
+    }),
+    disconnect: jest.fn(async () => {
+      client.isOpen = false
+      client.isReady = false
+    }),
+    on: jest.fn(),
+    set: jest.fn().mockResolvedValue('OK'),
+    get: jest.fn().mockResolvedValue(null),
+    del: jest.fn().mockResolvedValue(1),
+    pTTL: jest.fn().mockResolvedValue(-1),
+    mGet: jest.fn(async (keys: string[]) => keys.map((): string | null => null)),
+    pipeline,
+    multi: jest.fn(() => pipeline)
+  }
+  return client
+}
 
 // Mock the redis module
 jest.mock('redis', () => ({
@@ -50,6 +80,162 @@ describe('SuperLRU with Redis Write-Through', () => {
     })
   })
 
+  describe('Redis connection options', () => {
+    it('should pass a full URL, database, TLS and socket options to the client', () => {
+      const reconnectStrategy = (retries: number) => Math.min(retries * 50, 500)
+      new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: true,
+        redisConfig: {
+          url: 'rediss://cache.internal:6380',
+          db: 2,
+          tls: { servername: 'cache.internal' },
+          connectTimeout: 1000,
+          reconnectStrategy
+        }
+      })
+
+      expect(createClient).toHaveBeenCalledWith({
+        url: 'rediss://cache.internal:6380',
+        database: 2,
+        socket: { servername: 'cache.internal', tls: true, connectTimeout: 1000, reconnectStrategy }
+      })
+    })
+
+    it('should build the URL from host and port', () => {
+      new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: true,
+        redisConfig: { host: 'localhost', port: 6380, tls: true }
+      })
+
+      expect(createClient).toHaveBeenCalledWith({ url: 'redis://localhost:6380', socket: { tls: true } })
+    })
+
+    it('should use an existing client without connecting, closing or listening to it', async () => {
+      const client = createMockRedisClient()
+      client.isOpen = true
+
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: true,
+        compress: false,
+        redisConfig: { client: client as any }
+      })
+      await cache.set('key1', 'value1')
+      await cache.ready()
+      await cache.close()
+
+      expect(createClient).not.toHaveBeenCalled()
+      expect(client.connect).not.toHaveBeenCalled()
+      expect(client.set).toHaveBeenCalled()
+      expect(client.quit).not.toHaveBeenCalled()
+      // a shared client would otherwise collect a listener for every cache built on it
+      expect(client.on).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Redis connection lifecycle', () => {
+    it('should resolve ready once connected and quit on close', async () => {
+      const mockRedisClient = createMockRedisClient();
+      (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: true,
+        redisConfig: { url: 'redis://localhost:6379' }
+      })
+      await cache.ready()
+      expect(mockRedisClient.isOpen).toBe(true)
+
+      await cache.close()
+      expect(mockRedisClient.quit).toHaveBeenCalledTimes(1)
+      await cache.close()
+      expect(mockRedisClient.quit).toHaveBeenCalledTimes(1)
+    })
+
+    it('should close through Symbol.asyncDispose', async () => {
+      const mockRedisClient = createMockRedisClient();
+      (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: true,
+        redisConfig: { url: 'redis://localhost:6379' }
+      })
+      await cache[Symbol.asyncDispose]()
+
+      expect(mockRedisClient.quit).toHaveBeenCalled()
+    })
+
+    it('should report connection errors as remoteError and reject ready', async () => {
+      const error = new Error('ECONNREFUSED')
+      const mockRedisClient = createMockRedisClient()
+      mockRedisClient.connect.mockRejectedValue(error);
+      (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined)
+
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: true,
+        redisConfig: { url: 'redis://localhost:6379' }
+      })
+      const onError = jest.fn()
+      cache.on('remoteError', onError)
+
+      await expect(cache.ready()).rejects.toThrow('ECONNREFUSED')
+      expect(onError).toHaveBeenCalledWith(error)
+
+      // later socket errors, such as failed reconnection attempts, are reported as well
+      const [event, listener] = mockRedisClient.on.mock.calls[0]
+      expect(event).toBe('error')
+      listener(new Error('socket closed'))
+      expect(onError).toHaveBeenLastCalledWith(new Error('socket closed'))
+      expect(consoleError).not.toHaveBeenCalled()
+
+      await cache.close()
+      expect(mockRedisClient.quit).not.toHaveBeenCalled()
+      consoleError.mockRestore()
+    })
+
+    it('should close without waiting for a connection that never opens', async () => {
+      const mockRedisClient = createMockRedisClient()
+      const subscriber = createMockRedisClient()
+      // node-redis keeps connect() pending while it retries an unreachable server
+      for (const client of [mockRedisClient, subscriber]) {
+        client.connect.mockImplementation(() => {
+          client.isOpen = true
+          return new Promise<void>(() => undefined)
+        })
+      }
+      const duplicate = jest.fn(() => subscriber);
+      (createClient as jest.Mock).mockReturnValue(Object.assign(mockRedisClient, { duplicate }))
+
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: true,
+        invalidation: true,
+        redisConfig: { url: 'redis://localhost:6379' }
+      })
+      const onError = jest.fn()
+      cache.on('invalidationError', onError)
+      await cache.close()
+
+      expect(mockRedisClient.disconnect).toHaveBeenCalledTimes(1)
+      expect(mockRedisClient.quit).not.toHaveBeenCalled()
+      expect(duplicate).toHaveBeenCalledTimes(1)
+      expect(subscriber.disconnect).toHaveBeenCalledTimes(1)
+      expect(subscriber.quit).not.toHaveBeenCalled()
+      expect(onError).not.toHaveBeenCalled()
+    })
+
+    it('should resolve ready and close without remote storage', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 5 })
+      await expect(cache.ready()).resolves.toBeUndefined()
+      await expect(cache.close()).resolves.toBeUndefined()
+    })
+  })
+
   describe('Basic Redis operations', () => {
     it('should write to Redis when setting a value', async () => {
       const mockRedisClient = createMockRedisClient();
@@ -94,6 +280,503 @@ describe('SuperLRU with Redis Write-Through', () => {
     })
   })
 
+  describe('Namespaces', () => {
+    it('should prefix Redis keys with the namespace', async () => {
+      const mockRedisClient = createMockRedisClient();
+      (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: true,
+        compress: false,
+        namespace: 'users',
+        redisConfig: {
+          user: 'testuser',
+          host: 'localhost:6379'
+        }
+      })
+
+      await cache.set('key1', 'value1')
+      await cache.unset('key1')
+      await cache.get('key1')
+
+      const remoteKey = `superlru:users:${md5('key1')}`
+      expect(mockRedisClient.set).toHaveBeenCalledWith(remoteKey, expect.any(String))
+      expect(mockRedisClient.del).toHaveBeenCalledWith(remoteKey)
+      expect(mockRedisClient.get).toHaveBeenCalledWith(remoteKey)
+    })
+  })
+
+  describe('Bulk operations with Redis', () => {
+    const createCache = () => {
+      const mockRedisClient = createMockRedisClient();
+      (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+      const cache = new SuperLRU<string, string>({
+        maxSize: 2,
+        writeThrough: true,
+        compress: false,
+        redisConfig: {
+          user: 'testuser',
+          host: 'localhost:6379'
+        }
+      })
+      return { cache, mockRedisClient }
+    }
+
+    it('should read only the memory misses with a single MGET', async () => {
+      const { cache, mockRedisClient } = createCache()
+      await cache.set('key1', 'value1')
+      mockRedisClient.mGet.mockResolvedValueOnce([JSON.stringify('value2'), null])
+      mockRedisClient.pTTL.mockResolvedValueOnce(5000)
+
+      expect(await cache.getMany(['key1', 'key2', 'key3'])).toEqual(['value1', 'value2', null])
+
+      expect(mockRedisClient.mGet).toHaveBeenCalledTimes(1)
+      expect(mockRedisClient.mGet).toHaveBeenCalledWith([md5('key2'), md5('key3')])
+      expect(mockRedisClient.get).not.toHaveBeenCalled()
+      expect(mockRedisClient.pTTL).toHaveBeenCalledTimes(1)
+      expect(cache.has('key2')).toBe(true)
+    })
+
+    it('should share the bulk read with concurrent gets', async () => {
+      const { cache, mockRedisClient } = createCache()
+      mockRedisClient.mGet.mockResolvedValueOnce([JSON.stringify('value1')])
+
+      const [many, single] = await Promise.all([cache.getMany(['key1']), cache.get('key1')])
+
+      expect(many).toEqual(['value1'])
+      expect(single).toBe('value1')
+      expect(mockRedisClient.get).not.toHaveBeenCalled()
+    })
+
+    it('should write every entry with one pipeline, even those evicted from memory', async () => {
+      const { cache, mockRedisClient } = createCache()
+
+      await cache.setMany(
+        [
+          ['key1', 'value1'],
+          ['key2', 'value2'],
+          ['key3', 'value3']
+        ],
+        { ttl: 1000 }
+      )
+
+      expect(cache.size).toBe(2)
+      expect(mockRedisClient.multi).toHaveBeenCalledTimes(1)
+      expect(mockRedisClient.pipeline.set).toHaveBeenCalledTimes(3)
+      expect(mockRedisClient.pipeline.set).toHaveBeenCalledWith(md5('key1'), envelope('key1', JSON.stringify('value1')), { PX: 1000 })
+      expect(mockRedisClient.pipeline.execAsPipeline).toHaveBeenCalledTimes(1)
+      expect(mockRedisClient.set).not.toHaveBeenCalled()
+    })
+
+    it('should delete many keys with a single DEL', async () => {
+      const { cache, mockRedisClient } = createCache()
+
+      await cache.unsetMany(['key1', 'key2', 'key1'])
+
+      expect(mockRedisClient.del).toHaveBeenCalledTimes(1)
+      expect(mockRedisClient.del).toHaveBeenCalledWith([md5('key1'), md5('key2')])
+    })
+  })
+
+  describe('Redis TTL', () => {
+    it('should pass the entry ttl to Redis as a key expiry', async () => {
+      const mockRedisClient = createMockRedisClient();
+      (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: true,
+        compress: false,
+        defaultTtl: 5000,
+        redisConfig: {
+          user: 'testuser',
+          host: 'localhost:6379'
+        }
+      })
+
+      await cache.set('key1', 'value1')
+      await cache.set('key2', 'value2', { ttl: 250 })
+
+      expect(mockRedisClient.set).toHaveBeenCalledWith(md5('key1'), envelope('key1', '"value1"'), { PX: 5000 })
+      expect(mockRedisClient.set).toHaveBeenCalledWith(md5('key2'), envelope('key2', '"value2"'), { PX: 250 })
+    })
+
+    it('should keep the Redis key through the stale grace period', async () => {
+      const mockRedisClient = createMockRedisClient();
+      (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: true,
+        compress: false,
+        defaultTtl: 5000,
+        staleWhileRevalidate: 1000,
+        loader: async () => 'fresh',
+        redisConfig: {
+          user: 'testuser',
+          host: 'localhost:6379'
+        }
+      })
+
+      await cache.set('key1', 'value1')
+
+      expect(mockRedisClient.set).toHaveBeenCalledWith(md5('key1'), envelope('key1', '"value1"'), { PX: 6000 })
+    })
+
+    it('should keep the remaining Redis ttl when reading through', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      const mockRedisClient = createMockRedisClient()
+      mockRedisClient.get.mockResolvedValue(JSON.stringify('value1'))
+      mockRedisClient.pTTL.mockResolvedValue(200);
+      (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: true,
+        compress: false,
+        redisConfig: {
+          user: 'testuser',
+          host: 'localhost:6379'
+        }
+      })
+
+      expect(await cache.get('key1')).toBe('value1')
+      expect(mockRedisClient.set).not.toHaveBeenCalled()
+      expect(cache.has('key1')).toBe(true)
+
+      now.mockReturnValue(1200)
+      expect(cache.has('key1')).toBe(false)
+      now.mockRestore()
+    })
+  })
+
+  describe('Read-through coalescing', () => {
+    it('should share one Redis lookup between concurrent gets', async () => {
+      const mockRedisClient = createMockRedisClient()
+      mockRedisClient.get.mockResolvedValue(JSON.stringify('value1'));
+      (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: true,
+        compress: false,
+        redisConfig: {
+          user: 'testuser',
+          host: 'localhost:6379'
+        }
+      })
+
+      const results = await Promise.all([cache.get('key1'), cache.get('key1'), cache.get('key1')])
+
+      expect(results).toEqual(['value1', 'value1', 'value1'])
+      expect(mockRedisClient.get).toHaveBeenCalledTimes(1)
+    })
+
+    it('should let get join a pending getOrLoad and only load on a Redis miss', async () => {
+      const mockRedisClient = createMockRedisClient();
+      (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: true,
+        compress: false,
+        redisConfig: {
+          user: 'testuser',
+          host: 'localhost:6379'
+        }
+      })
+      const loader = jest.fn(async () => 'loaded')
+
+      const results = await Promise.all([cache.getOrLoad('key1', loader), cache.get('key1')])
+
+      expect(results).toEqual(['loaded', 'loaded'])
+      expect(mockRedisClient.get).toHaveBeenCalledTimes(1)
+      expect(loader).toHaveBeenCalledTimes(1)
+      expect(mockRedisClient.set).toHaveBeenCalledWith(md5('key1'), envelope('key1', JSON.stringify('loaded')))
+    })
+  })
+
+  describe('Encrypted values in Redis', () => {
+    it('should store identical values as different ciphertexts', async () => {
+      const mockRedisClient = createMockRedisClient();
+      (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: true,
+        compress: false,
+        encrypt: true,
+        redisConfig: {
+          user: 'testuser',
+          host: 'localhost:6379'
+        }
+      })
+
+      await cache.set('key1', 'same value')
+      await cache.set('key2', 'same value')
+
+      const stored1 = mockRedisClient.set.mock.calls[0][1]
+      const stored2 = mockRedisClient.set.mock.calls[1][1]
+      expect(stored1).not.toBe(stored2)
+    })
+
+    it('should fail with a clear error when a value read from Redis was tampered with', async () => {
+      const mockRedisClient = createMockRedisClient();
+      (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+
+      const cache = new SuperLRU<string, string>({
+        maxSize: 1,
+        writeThrough: true,
+        compress: false,
+        encrypt: true,
+        redisConfig: {
+          user: 'testuser',
+          host: 'localhost:6379'
+        }
+      })
+
+      await cache.set('key1', 'secret')
+      const { keyId, encrypted } = parseKeyId(remoteValue(mockRedisClient.set.mock.calls[0][1]))
+      const data = Buffer.from(encrypted, 'base64')
+      data[data.length - 1] ^= 0x01
+      mockRedisClient.get.mockResolvedValue(`${keyId}:${data.toString('base64')}`)
+      // push key1 out of memory so it is read back from Redis
+      await cache.set('key2', 'other')
+
+      await expect(cache.get('key1')).rejects.toThrow('authentication failed')
+    })
+  })
+
+  describe('Key rotation', () => {
+    const keyring = () => ({
+      keys: { v1: crypto.randomBytes(32) },
+      activeKeyId: 'v1'
+    })
+
+    it('should tag Redis values with the active key id', async () => {
+      const mockRedisClient = createMockRedisClient();
+      (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: true,
+        encrypt: true,
+        keyring: keyring(),
+        redisConfig: {
+          user: 'testuser',
+          host: 'localhost:6379'
+        }
+      })
+
+      await cache.set('key1', 'secret')
+      expect(parseKeyId(remoteValue(mockRedisClient.set.mock.calls[0][1])).keyId).toBe('v1')
+    })
+
+    it('should re-encrypt in-memory entries and their Redis copies with the new key', async () => {
+      const mockRedisClient = createMockRedisClient();
+      (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: true,
+        encrypt: true,
+        keyring: keyring(),
+        redisConfig: {
+          user: 'testuser',
+          host: 'localhost:6379'
+        }
+      })
+
+      await cache.set('key1', 'secret1')
+      await cache.set('key2', 'secret2')
+      mockRedisClient.set.mockClear()
+
+      const count = await cache.rotateKey('v2', crypto.randomBytes(32))
+
+      expect(count).toBe(2)
+      expect(mockRedisClient.set).toHaveBeenCalledTimes(2)
+      for (const [hash, value, options] of mockRedisClient.set.mock.calls) {
+        expect([md5('key1'), md5('key2')]).toContain(hash)
+        expect(parseKeyId(remoteValue(value)).keyId).toBe('v2')
+        expect(options).toEqual({ KEEPTTL: true })
+      }
+      expect(await cache.get('key1')).toBe('secret1')
+      expect(await cache.get('key2')).toBe('secret2')
+    })
+
+    it('should re-encrypt values read through from Redis under an old key', async () => {
+      const mockRedisClient = createMockRedisClient();
+      (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+
+      const cache = new SuperLRU<string, string>({
+        maxSize: 1,
+        writeThrough: true,
+        encrypt: true,
+        keyring: keyring(),
+        redisConfig: {
+          user: 'testuser',
+          host: 'localhost:6379'
+        }
+      })
+
+      await cache.set('key1', 'secret1')
+      const oldValue = mockRedisClient.set.mock.calls[0][1]
+      await cache.set('key2', 'secret2')
+      await cache.rotateKey('v2', crypto.randomBytes(32))
+      mockRedisClient.set.mockClear()
+      mockRedisClient.get.mockResolvedValue(oldValue)
+
+      expect(await cache.get('key1')).toBe('secret1')
+      expect(mockRedisClient.set).toHaveBeenCalledWith(md5('key1'), expect.stringMatching(/"v":"v2:/), { KEEPTTL: true })
+    })
+  })
+
+  describe('Compression codecs in Redis', () => {
+    const redisConfig = { user: 'testuser', host: 'localhost:6379' }
+
+    it('should record the codec with every stored value', async () => {
+      const mockRedisClient = createMockRedisClient();
+      (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+
+      const cache = new SuperLRU<string, string>({
+        maxSize: 5,
+        writeThrough: true,
+        codec: 'brotli',
+        compressionThreshold: 20,
+        redisConfig
+      })
+
+      await cache.set('small', 'value1')
+      await cache.set('large', 'a'.repeat(100))
+
+      expect(mockRedisClient.set).toHaveBeenCalledWith(md5('small'), envelope('small', 'none:"value1"'))
+      expect(mockRedisClient.set).toHaveBeenCalledWith(md5('large'), expect.stringMatching(/"v":"brotli:/))
+    })
+
+    it('should read values written under an earlier codec setting', async () => {
+      const mockRedisClient = createMockRedisClient();
+      (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+
+      const gzipCache = new SuperLRU<string, object>({ maxSize: 5, writeThrough: true, codec: 'gzip', redisConfig })
+      await gzipCache.set('key1', { prop: 'value' })
+      mockRedisClient.get.mockResolvedValue(mockRedisClient.set.mock.calls[0][1])
+
+      const brotliCache = new SuperLRU<string, object>({ maxSize: 5, writeThrough: true, codec: 'brotli', redisConfig })
+      expect(await brotliCache.get('key1')).toEqual({ prop: 'value' })
+    })
+
+    it('should read untagged gzip values written by earlier versions', async () => {
+      const mockRedisClient = createMockRedisClient()
+      mockRedisClient.get.mockResolvedValue(compressValue({ prop: 'value' }));
+      (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+
+      const cache = new SuperLRU<string, object>({ maxSize: 5, writeThrough: true, codec: 'deflate', redisConfig })
+      expect(await cache.get('key1')).toEqual({ prop: 'value' })
+    })
+
+    describe('with encryption written by earlier versions', () => {
+      const securityKey = crypto.randomBytes(32)
+      const initVector = crypto.randomBytes(16)
+      // earlier versions encrypted strings as they are and other values as JSON, then gzipped the ciphertext's JSON
+      const legacyEncrypt = (value: unknown) => {
+        const cipher = crypto.createCipheriv('aes-256-cbc', securityKey, initVector)
+        const text = typeof value === 'string' ? value : JSON.stringify(value)
+        return cipher.update(text, 'utf-8', 'base64') + cipher.final('base64')
+      }
+      const legacyCache = (compress: boolean) =>
+        new SuperLRU<string, any>({
+          maxSize: 5,
+          writeThrough: true,
+          compress,
+          encrypt: true,
+          securityKey,
+          initVector,
+          redisConfig
+        })
+
+      it('should read values that were encrypted and then compressed', async () => {
+        const mockRedisClient = createMockRedisClient()
+        mockRedisClient.get.mockResolvedValueOnce(compressValue(legacyEncrypt({ prop: 'value' })))
+        mockRedisClient.get.mockResolvedValueOnce(compressValue(legacyEncrypt('plain text')));
+        (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+
+        const cache = legacyCache(true)
+        expect(await cache.get('key1')).toEqual({ prop: 'value' })
+        expect(await cache.get('key2')).toBe('plain text')
+      })
+
+      it('should read values that were only encrypted', async () => {
+        const mockRedisClient = createMockRedisClient()
+        mockRedisClient.get.mockResolvedValueOnce(legacyEncrypt({ prop: 'value' }))
+        mockRedisClient.get.mockResolvedValueOnce(legacyEncrypt('plain text'));
+        (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+
+        const cache = legacyCache(false)
+        expect(await cache.get('key1')).toEqual({ prop: 'value' })
+        expect(await cache.get('key2')).toBe('plain text')
+      })
+
+      it('should read them with aes-256-cbc whatever algorithm is set', async () => {
+        const mockRedisClient = createMockRedisClient()
+        mockRedisClient.get.mockResolvedValueOnce(legacyEncrypt({ prop: 'value' }));
+        (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+
+        const cache = new SuperLRU<string, any>({
+          maxSize: 5,
+          writeThrough: true,
+          compress: false,
+          encrypt: true,
+          algorithm: 'chacha20-poly1305',
+          securityKey,
+          initVector,
+          redisConfig
+        })
+        expect(await cache.get('key1')).toEqual({ prop: 'value' })
+      })
+    })
+  })
+
+  describe('Serialization in Redis', () => {
+    it('should round-trip uncompressed values through Redis with the serializer', async () => {
+      const mockRedisClient = createMockRedisClient();
+      (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+
+      const cache = new SuperLRU<string, any>({
+        maxSize: 1,
+        writeThrough: true,
+        compress: false,
+        redisConfig: {
+          user: 'testuser',
+          host: 'localhost:6379'
+        }
+      })
+      const value = { when: new Date(0), ids: new Set([1, 2]) }
+
+      await cache.set('key1', value)
+      mockRedisClient.get.mockResolvedValue(mockRedisClient.set.mock.calls[0][1])
+      await cache.set('key2', 'other')
+
+      expect(await cache.get('key1')).toEqual(value)
+    })
+
+    it('should read uncompressed strings that earlier versions wrote as they are', async () => {
+      const mockRedisClient = createMockRedisClient()
+      mockRedisClient.get.mockResolvedValueOnce('hello')
+      mockRedisClient.get.mockResolvedValueOnce('{"prop":"value"}');
+      (createClient as jest.Mock).mockReturnValue(mockRedisClient)
+
+      const cache = new SuperLRU<string, any>({
+        maxSize: 5,
+        writeThrough: true,
+        compress: false,
+        redisConfig: { url: 'redis://localhost:6379' }
+      })
+      expect(await cache.get('key1')).toBe('hello')
+      expect(await cache.get('key2')).toEqual({ prop: 'value' })
+    })
+  })
+
   describe('Cache options', () => {
     it('should support different cache storage options', async () => {
       // Test with compression disabled
@@ -0,0 +1,131 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { SuperLRU } from '../src'
+
+describe('Snapshots', () => {
+  let directory: string
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'superlru-snapshot-'))
+  })
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  async function populated(options: { compress?: boolean; encrypt?: boolean; securityKey?: Buffer } = {}) {
+    const cache = new SuperLRU<string, { n: number }>({ maxSize: 10, ...options })
+    await cache.set('a', { n: 1 })
+    await cache.set('b', { n: 2 }, { ttl: 60_000 })
+    await cache.set('c', { n: 3 })
+    await cache.get('a')
+    return cache
+  }
+
+  it('should restore entries in recency order with their expiry', async () => {
+    const source = await populated()
+    const snapshot = source.dump()
+
+    const target = new SuperLRU<string, { n: number }>({ maxSize: 10 })
+    expect(target.load(snapshot)).toBe(3)
+
+    expect(Array.from(target.entries())).toEqual([
+      ['a', { n: 1 }],
+      ['c', { n: 3 }],
+      ['b', { n: 2 }]
+    ])
+    expect(snapshot.entries[2]).toMatchObject({ ttl: 60_000, staleUntil: expect.any(Number) })
+    expect(snapshot.header).toMatchObject({ format: 'superlru-snapshot', version: 1, count: 3 })
+    expect(target.stats().bytes).toBe(source.stats().bytes)
+  })
+
+  it('should keep values in their stored form', async () => {
+    const securityKey = Buffer.alloc(32, 7)
+    const source = await populated({ encrypt: true, securityKey })
+    const snapshot = source.dump()
+
+    expect(JSON.stringify(snapshot)).not.toContain('"n"')
+    const target = new SuperLRU<string, { n: number }>({ maxSize: 10, encrypt: true, securityKey })
+    target.load(snapshot)
+    expect(await target.get('b')).toEqual({ n: 2 })
+  })
+
+  it('should round-trip values without compression or encryption', async () => {
+    const source = await populated({ compress: false })
+    const target = new SuperLRU<string, { n: number }>({ maxSize: 10, compress: false })
+    target.load(source.dump())
+
+    expect(target.peek('c')).toEqual({ n: 3 })
+  })
+
+  it('should leave out entries whose key has no serialization', async () => {
+    const source = new SuperLRU<string | symbol, string>({ maxSize: 10 })
+    await source.set('a', 'kept')
+    await source.set(Symbol('b'), 'left out')
+    const snapshot = JSON.parse(JSON.stringify(source.dump()))
+
+    const target = new SuperLRU<string | symbol, string>({ maxSize: 10 })
+    expect(snapshot.header.count).toBe(1)
+    expect(target.load(snapshot)).toBe(1)
+    expect(Array.from(target.entries())).toEqual([['a', 'kept']])
+  })
+
+  it('should keep only the most recent entries in a smaller cache', async () => {
+    const source = await populated()
+    const target = new SuperLRU<string, { n: number }>({ maxSize: 2 })
+
+    expect(target.load(source.dump())).toBe(2)
+    expect(Array.from(target.keys())).toEqual(['a', 'c'])
+  })
+
+  it('should skip entries that expired since the dump', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+    const source = await populated()
+    const snapshot = source.dump()
+    now.mockReturnValue(1000 + 60_000)
+
+    const target = new SuperLRU<string, { n: number }>({ maxSize: 10 })
+    expect(target.load(snapshot)).toBe(2)
+    expect(target.has('b')).toBe(false)
+  })
+
+  it('should reject tampered, foreign and incompatible snapshots', async () => {
+    const source = await populated()
+    const target = new SuperLRU<string, { n: number }>({ maxSize: 10 })
+
+    const tampered = source.dump()
+    tampered.entries[0].timestamp++
+    expect(() => target.load(tampered)).toThrow('snapshot checksum mismatch')
+
+    const future = source.dump()
+    future.header.version = 2
+    expect(() => target.load(future)).toThrow('unsupported snapshot version 2')
+
+    expect(() => target.load({} as any)).toThrow('not a SuperLRU snapshot')
+
+    const uncompressed = new SuperLRU<string, { n: number }>({ maxSize: 10, compress: false })
+    expect(() => uncompressed.load(source.dump())).toThrow(
+      'snapshot compress and encrypt settings do not match the cache'
+    )
+    expect(target.size).toBe(0)
+  })
+
+  it('should save to and load from a file', async () => {
+    const file = path.join(directory, 'cache.json')
+    const source = await populated()
+    expect(await source.saveToFile(file)).toBe(3)
+    expect((await fs.readdir(directory)).filter((name) => name.endsWith('.tmp'))).toEqual([])
+
+    const target = new SuperLRU<string, { n: number }>({ maxSize: 10 })
+    expect(await target.loadFromFile(file)).toBe(3)
+    expect(Array.from(target.keys())).toEqual(['a', 'c', 'b'])
+
+    await fs.writeFile(file, 'garbage')
+    await expect(target.loadFromFile(file)).rejects.toThrow('not a SuperLRU snapshot')
+  })
+})
@@ -0,0 +1,126 @@
+import { MemoryAdapter, SuperLRU } from '../src'
+import { LatencyTracker } from '../src/stats'
+
+describe('Statistics', () => {
+  describe('LatencyTracker', () => {
+    it('should sum durations and compute percentiles', () => {
+      const tracker = new LatencyTracker()
+      for (let i = 1; i <= 100; i++) {
+        tracker.record(i)
+      }
+
+      expect(tracker.stats()).toEqual({ count: 100, total: 5050, p50: 50, p90: 90, p99: 99 })
+    })
+
+    it('should report from the last reset but keep the running totals', () => {
+      const tracker = new LatencyTracker()
+      tracker.record(10)
+      tracker.reset()
+      tracker.record(2)
+
+      expect(tracker.stats()).toEqual({ count: 1, total: 2, p50: 2, p90: 2, p99: 2 })
+      expect(tracker.count).toBe(2)
+      expect(tracker.total).toBe(12)
+    })
+
+    it('should time operations that throw', () => {
+      const tracker = new LatencyTracker()
+      expect(() =>
+        tracker.time(() => {
+          throw new Error('boom')
+        })
+      ).toThrow('boom')
+
+      expect(tracker.stats().count).toBe(1)
+    })
+  })
+
+  it('should count operations and evictions by reason', async () => {
+    const cache = new SuperLRU<string, string>({ maxSize: 2 })
+    await cache.set('a', '1')
+    await cache.set('a', '2')
+    await cache.setMany([
+      ['b', '3'],
+      ['c', '4']
+    ])
+    await cache.get('c')
+    await cache.get('a')
+    await cache.unset('c')
+    await cache.unsetMany(['b', 'missing'])
+
+    expect(cache.stats()).toMatchObject({
+      hits: 1,
+      misses: 1,
+      hitRatio: 0.5,
+      sets: 4,
+      deletes: 3,
+      evictions: { capacity: 1, expired: 0, deleted: 2, overwritten: 1, invalidated: 0, cleared: 0 },
+      size: 0,
+      bytes: 0
+    })
+  })
+
+  it('should time compression and encryption', async () => {
+    const cache = new SuperLRU<string, string>({ maxSize: 5, encrypt: true })
+    await cache.set('a', 'value')
+    await cache.get('a')
+
+    const { latency } = cache.stats()
+    expect(latency.compression.count).toBe(2)
+    expect(latency.encryption.count).toBe(2)
+    expect(latency.compression.total).toBeGreaterThan(0)
+    expect(latency.remote.count).toBe(0)
+  })
+
+  it('should count remote hits, misses and errors and time remote calls', async () => {
+    const storage = new MemoryAdapter()
+    const cache = new SuperLRU<string, string>({ maxSize: 5, writeThrough: storage, failurePolicy: 'ignore' })
+    cache.on('remoteError', () => {})
+    await cache.set('a', '1')
+    await cache.clear()
+    await cache.get('a')
+    await cache.get('b')
+    jest.spyOn(storage, 'get').mockRejectedValueOnce(new Error('down'))
+    await cache.get('c')
+
+    const { remote, latency } = cache.stats()
+    expect(remote).toEqual({ hits: 1, misses: 1, errors: 1 })
+    expect(latency.remote.count).toBe(4)
+  })
+
+  it('should leave has() out of the hit ratio with trackHas disabled', async () => {
+    const cache = new SuperLRU<string, string>({ maxSize: 5, trackHas: false })
+    const hit = jest.fn()
+    cache.on('hit', hit)
+    await cache.set('a', '1')
+    cache.has('a')
+    cache.has('b')
+    await cache.get('a')
+
+    expect(cache.stats()).toMatchObject({ hits: 1, misses: 0, hitRatio: 1 })
+    expect(hit).toHaveBeenCalledTimes(2)
+  })
+
+  it('should reset every counter on flush', async () => {
+    const cache = new SuperLRU<string, string>({ maxSize: 1 })
+    await cache.set('a', '1')
+    await cache.set('b', '2')
+    await cache.get('b')
+    await cache.clear()
+
+    const flushed = cache.stats(true)
+    expect(flushed).toMatchObject({ hits: 1, sets: 2, evictions: { capacity: 1, cleared: 1 } })
+    expect(flushed.latency.compression.count).toBeGreaterThan(0)
+
+    expect(cache.stats()).toMatchObject({
+      hits: 0,
+      misses: 0,
+      hitRatio: 0,
+      sets: 0,
+      deletes: 0,
+      evictions: { capacity: 0, expired: 0, deleted: 0, overwritten: 0, invalidated: 0, cleared: 0 },
+      remote: { hits: 0, misses: 0, errors: 0 },
+      latency: { compression: { count: 0, total: 0, p50: 0, p90: 0, p99: 0 } }
+    })
+  })
+})
@@ -0,0 +1,238 @@
+import { LocalInvalidationBus, MemoryAdapter, SuperLRU } from '../src'
+
+describe('Tags', () => {
+  describe('in memory', () => {
+    it('should remove every entry carrying a tag', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 10 })
+      await cache.set('profile:42', 'profile', { tags: ['customer:42'] })
+      await cache.set('orders:42', 'orders', { tags: ['customer:42', 'orders'] })
+      await cache.set('orders:7', 'orders', { tags: ['customer:7', 'orders'] })
+
+      expect(await cache.invalidateTag('customer:42')).toBe(2)
+
+      expect(cache.has('profile:42')).toBe(false)
+      expect(cache.has('orders:42')).toBe(false)
+      expect(cache.has('orders:7')).toBe(true)
+      expect(await cache.invalidateTag('customer:42')).toBe(0)
+    })
+
+    it('should tag every entry of setMany', async () => {
+      const cache = new SuperLRU<string, number>({ maxSize: 10 })
+      await cache.setMany(
+        [
+          ['a', 1],
+          ['b', 2]
+        ],
+        { tags: ['batch'] }
+      )
+      await cache.set('c', 3)
+
+      expect(await cache.invalidateTag('batch')).toBe(2)
+      expect(Array.from(cache.keys())).toEqual(['c'])
+    })
+
+    it('should emit evict with the reason deleted', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 10 })
+      const onEvict = jest.fn()
+      cache.on('evict', onEvict)
+      await cache.set('key1', 'value1', { tags: ['tag1'] })
+
+      await cache.invalidateTag('tag1')
+
+      expect(onEvict).toHaveBeenCalledWith('key1', 'value1', 'deleted')
+    })
+
+    it('should replace the tags of an entry that is set again', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 10 })
+      await cache.set('key1', 'value1', { tags: ['old'] })
+      await cache.set('key1', 'value2', { tags: ['new'] })
+
+      expect(await cache.invalidateTag('old')).toBe(0)
+      expect(cache.peek('key1')).toBe('value2')
+      expect(await cache.invalidateTag('new')).toBe(1)
+    })
+
+    it('should forget the tags of evicted entries', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 2 })
+      await cache.set('key1', 'value1', { tags: ['tag1'] })
+      await cache.set('key2', 'value2')
+      await cache.set('key3', 'value3')
+      await cache.set('key1', 'again')
+
+      // key1 was evicted and set again without tags, so the tag no longer applies
+      expect(await cache.invalidateTag('tag1')).toBe(0)
+      expect(cache.peek('key1')).toBe('again')
+    })
+
+    it('should forget the tags of deleted and cleared entries', async () => {
+      const cache = new SuperLRU<string, string>({ maxSize: 10 })
+      await cache.set('key1', 'value1', { tags: ['tag1'] })
+      await cache.unset('key1')
+      await cache.set('key2', 'value2', { tags: ['tag2'] })
+      await cache.clear()
+      await cache.set('key1', 'value1')
+      await cache.set('key2', 'value2')
+
+      expect(await cache.invalidateTag('tag1')).toBe(0)
+      expect(await cache.invalidateTag('tag2')).toBe(0)
+      expect(cache.size).toBe(2)
+    })
+
+    it('should keep the tags of entries refreshed in the background', async () => {
+      const cache = new SuperLRU<string, string>({
+        maxSize: 10,
+        staleWhileRevalidate: 1000,
+        loader: async () => 'fresh'
+      })
+      await cache.set('key1', 'stale', { ttl: 10, tags: ['tag1'] })
+      await new Promise((resolve) => setTimeout(resolve, 20))
+
+      expect(await cache.getOrLoad('key1')).toBe('stale')
+      await new Promise((resolve) => setImmediate(resolve))
+      expect(cache.peek('key1')).toBe('fresh')
+
+      expect(await cache.invalidateTag('tag1')).toBe(1)
+    })
+
+    it('should restore tags from a snapshot', async () => {
+      const source = new SuperLRU<string, string>({ maxSize: 10 })
+      await source.set('key1', 'value1', { tags: ['tag1'] })
+      await source.set('key2', 'value2')
+
+      const target = new SuperLRU<string, string>({ maxSize: 10 })
+      target.load(source.dump())
+
+      expect(await target.invalidateTag('tag1')).toBe(1)
+      expect(Array.from(target.keys())).toEqual(['key2'])
+    })
+  })
+
+  describe('with write-through', () => {
+    it('should keep tag membership in remote sets', async () => {
+      const storage = new MemoryAdapter()
+      const cache = new SuperLRU<string, string>({ maxSize: 10, writeThrough: storage, namespace: 'views' })
+      await cache.set('key1', 'value1', { tags: ['customer:42'] })
+      await cache.setMany([['key2', 'value2']], { tags: ['customer:42'] })
+
+      const members = await storage.members('superlru-tag:views:customer:42')
+      expect(members.sort()).toEqual((await storage.keys('superlru:views:')).sort())
+      expect(await cache.countNamespace()).toBe(2)
+    })
+
+    it('should delete remote entries other instances tagged', async () => {
+      const storage = new MemoryAdapter()
+      const writer = new SuperLRU<string, string>({ maxSize: 10, writeThrough: storage })
+      await writer.set('key1', 'value1', { tags: ['tag1'] })
+      await writer.set('key2', 'value2', { tags: ['tag2'] })
+
+      const other = new SuperLRU<string, string>({ maxSize: 10, writeThrough: storage })
+      expect(await other.invalidateTag('tag1')).toBe(1)
+
+      expect(await storage.members('superlru-tag:tag1')).toEqual([])
+      await writer.clear()
+      expect(await writer.get('key1')).toBeNull()
+      expect(await writer.get('key2')).toBe('value2')
+    })
+
+    it('should delete remote entries evicted from memory', async () => {
+      const storage = new MemoryAdapter()
+      const cache = new SuperLRU<string, string>({ maxSize: 1, writeThrough: storage })
+      await cache.set('key1', 'value1', { tags: ['tag1'] })
+      await cache.set('key2', 'value2', { tags: ['tag1'] })
+
+      expect(await cache.invalidateTag('tag1')).toBe(2)
+      expect(await storage.keys('')).toEqual([])
+    })
+
+    it('should restore tags of entries read through from remote storage', async () => {
+      const storage = new MemoryAdapter()
+      const writer = new SuperLRU<string, string>({ maxSize: 10, writeThrough: storage })
+      await writer.set('key1', 'value1', { tags: ['tag1'] })
+
+      const reader = new SuperLRU<string, string>({ maxSize: 10, writeThrough: storage })
+      expect(await reader.get('key1')).toBe('value1')
+      await storage.delete('superlru-tag:tag1')
+
+      expect(await reader.invalidateTag('tag1')).toBe(1)
+      expect(reader.has('key1')).toBe(false)
+    })
+
+    it('should leave remote entries that were set again with other tags', async () => {
+      const storage = new MemoryAdapter()
+      const writer = new SuperLRU<string, string>({ maxSize: 10, writeThrough: storage })
+      await writer.set('k', 'v1', { tags: ['a'] })
+      await writer.set('k', 'v2', { tags: ['b'] })
+
+      const other = new SuperLRU<string, string>({ maxSize: 10, writeThrough: storage })
+      expect(await other.invalidateTag('a')).toBe(0)
+      expect(await other.get('k')).toBe('v2')
+    })
+
+    it('should leave remote entries that were deleted and set again without tags', async () => {
+      const storage = new MemoryAdapter()
+      const writer = new SuperLRU<string, string>({ maxSize: 10, writeThrough: storage })
+      await writer.set('k', 'v2', { tags: ['b'] })
+      await writer.unset('k')
+      await writer.set('k', 'v3')
+
+      const other = new SuperLRU<string, string>({ maxSize: 10, writeThrough: storage })
+      expect(await other.invalidateTag('b')).toBe(0)
+      expect(await other.get('k')).toBe('v3')
+      expect(await storage.members('superlru-tag:b')).toEqual([])
+    })
+
+    it('should expire tag sets with their longest-lived entry', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      const storage = new MemoryAdapter()
+      const cache = new SuperLRU<string, string>({ maxSize: 10, writeThrough: storage })
+      await cache.set('key1', 'value1', { ttl: 100, tags: ['tag1'] })
+      await cache.set('key2', 'value2', { ttl: 200, tags: ['tag1'] })
+      await cache.set('key3', 'value3', { tags: ['tag2'] })
+
+      expect(await storage.ttl('superlru-tag:tag1')).toBe(200)
+      expect(await storage.ttl('superlru-tag:tag2')).toBeNull()
+      now.mockRestore()
+    })
+
+    it('should delete the tag sets of the namespace when clearing remote storage', async () => {
+      const storage = new MemoryAdapter()
+      const users = new SuperLRU<string, string>({ maxSize: 10, writeThrough: storage, namespace: 'users' })
+      const orders = new SuperLRU<string, string>({ maxSize: 10, writeThrough: storage, namespace: 'orders' })
+      await users.set('key1', 'value1', { tags: ['tag1'] })
+      await orders.set('key1', 'value1', { tags: ['tag1'] })
+
+      await users.clear({ remote: true })
+
+      expect(await storage.keys('superlru-tag:')).toEqual(['superlru-tag:orders:tag1'])
+    })
+
+    it('should delete tagged entries through the write-behind queue', async () => {
+      const storage = new MemoryAdapter()
+      const cache = new SuperLRU<string, string>({ maxSize: 10, writeThrough: storage, writeBehind: true })
+      await cache.set('key1', 'value1', { tags: ['tag1'] })
+      await cache.flush()
+
+      await cache.invalidateTag('tag1')
+      await cache.flush()
+
+      expect(await storage.keys('')).toEqual([])
+      await cache.close()
+    })
+
+    it('should tell other instances to drop invalidated entries', async () => {
+      const storage = new MemoryAdapter()
+      const bus = new LocalInvalidationBus()
+      const a = new SuperLRU<string, string>({ maxSize: 10, writeThrough: storage, invalidation: bus })
+      const b = new SuperLRU<string, string>({ maxSize: 10, writeThrough: storage, invalidation: bus })
+      await a.set('key1', 'value1', { tags: ['tag1'] })
+      expect(await b.get('key1')).toBe('value1')
+
+      await a.invalidateTag('tag1')
+      await new Promise((resolve) => setImmediate(resolve))
+
+      expect(b.has('key1')).toBe(false)
+      await a.close()
+      await b.close()
+    })
+  })
+})
@@ -1,5 +1,15 @@
 import crypto from 'crypto'
-import { compressValue, decompressValue, decryptValue, encryptValue, md5, SuperLRU } from '../src'
+import {
+  codecs,
+  compressValue,
+  decompressValue,
+  decryptValue,
+  defaultSerializer,
+  encryptValue,
+  md5,
+  parseKeyId,
+  SuperLRU
+} from '../src'
 
 const encryption = {
   algo: 'aes-256-cbc',
@@ -35,6 +45,72 @@ describe('md5 hash function', () => {
   })
 })
 
+describe('default serializer', () => {
+  const roundTrip = (value: unknown) => defaultSerializer.deserialize(defaultSerializer.serialize(value))
+
+  it('should produce plain JSON for JSON-compatible values', () => {
+    const input = { a: 1, b: 'test', c: [true, null, { d: 2.5 }] }
+    expect(defaultSerializer.serialize(input)).toBe(JSON.stringify(input))
+    expect(roundTrip(input)).toEqual(input)
+  })
+
+  it('should round-trip Dates', () => {
+    const date = new Date('2023-01-01T00:00:00Z')
+    expect(roundTrip(date)).toEqual(date)
+    expect(roundTrip(date)).toBeInstanceOf(Date)
+  })
+
+  it('should round-trip Maps and Sets', () => {
+    const map = new Map<any, any>([['a', 1], [{ key: true }, new Set([1, 2])]])
+    const result = roundTrip(map)
+    expect(result).toBeInstanceOf(Map)
+    expect(result).toEqual(map)
+    expect(roundTrip(new Set(['x', 'y']))).toEqual(new Set(['x', 'y']))
+  })
+
+  it('should round-trip BigInts and non-finite numbers', () => {
+    expect(roundTrip(BigInt('12345678901234567890'))).toBe(BigInt('12345678901234567890'))
+    expect(roundTrip([NaN, Infinity, -Infinity])).toEqual([NaN, Infinity, -Infinity])
+  })
+
+  it('should round-trip RegExps', () => {
+    const result = roundTrip(/ab+c/gi) as RegExp
+    expect(result).toBeInstanceOf(RegExp)
+    expect(result.source).toBe('ab+c')
+    expect(result.flags).toBe('gi')
+  })
+
+  it('should round-trip typed arrays and Buffers', () => {
+    const floats = new Float64Array([1.5, -2.25, 3])
+    expect(roundTrip(floats)).toEqual(floats)
+    expect(roundTrip(new Uint8Array([1, 2, 3]))).toEqual(new Uint8Array([1, 2, 3]))
+    expect(roundTrip(new BigInt64Array([BigInt(-1)]))).toEqual(new BigInt64Array([BigInt(-1)]))
+    expect(roundTrip(Buffer.from('buffer'))).toEqual(Buffer.from('buffer'))
+  })
+
+  it('should preserve undefined fields and array elements', () => {
+    const result = roundTrip({ a: undefined, b: [1, undefined] }) as { a: undefined; b: unknown[] }
+    expect(result).toHaveProperty('a', undefined)
+    expect(result.b).toEqual([1, undefined])
+    expect(roundTrip(undefined)).toBeUndefined()
+  })
+
+  it('should round-trip nested combinations', () => {
+    const input = {
+      when: new Date(0),
+      index: new Map([['ids', new Set([BigInt(1), BigInt(2)])]]),
+      matchers: [/x/],
+      bytes: new Uint16Array([65535])
+    }
+    expect(roundTrip(input)).toEqual(input)
+  })
+
+  it('should not confuse plain objects using the tag property with tagged values', () => {
+    const input = { $t: 'Date', v: 'not a date' }
+    expect(roundTrip(input)).toEqual(input)
+  })
+})
+
 describe('compression functions', () => {
   it('should compress and decompress a string value', () => {
     const input = 'testing string compression'
@@ -78,6 +154,20 @@ describe('compression functions', () => {
   })
 })
 
+describe('compression codecs', () => {
+  const input = { test: 'value', list: Array(50).fill('repeated') }
+
+  it.each(['gzip', 'deflate', 'deflate-raw', 'brotli', 'none'] as const)('should round-trip values with %s', (name) => {
+    const compressed = compressValue(input, codecs[name])
+    expect(JSON.parse(decompressValue(compressed, codecs[name]))).toEqual(input)
+  })
+
+  it('should not decode a value with a different codec', () => {
+    const compressed = compressValue(input, codecs.brotli)
+    expect(() => decompressValue(compressed, codecs.gzip)).toThrow()
+  })
+})
+
 describe('encryption functions', () => {
   it('should encrypt and decrypt a string value', () => {
     const stringInput = 'encrypted string value test'
@@ -163,6 +253,68 @@ describe('encryption functions', () => {
   })
 })
 
+describe('authenticated encryption', () => {
+  const gcm = { algo: 'aes-256-gcm', securityKey: crypto.randomBytes(32) }
+
+  it('should encrypt and decrypt values with AES-256-GCM', () => {
+    const input = { test: 'encrypted object value test' }
+    const { encrypted, type } = encryptValue(input, gcm)
+    expect(decryptValue(encrypted, type, gcm)).toEqual(input)
+  })
+
+  it('should encrypt and decrypt values with ChaCha20-Poly1305', () => {
+    const chacha = { algo: 'chacha20-poly1305', securityKey: crypto.randomBytes(32) }
+    const { encrypted, type } = encryptValue('chacha value', chacha)
+    expect(decryptValue(encrypted, type, chacha)).toBe('chacha value')
+  })
+
+  it('should use a fresh nonce for every value', () => {
+    const { encrypted: encrypted1 } = encryptValue('test value', gcm)
+    const { encrypted: encrypted2 } = encryptValue('test value', gcm)
+    expect(encrypted1).not.toBe(encrypted2)
+    expect(Buffer.from(encrypted1, 'base64').subarray(0, 12)).not.toEqual(
+      Buffer.from(encrypted2, 'base64').subarray(0, 12)
+    )
+  })
+
+  it('should reject tampered ciphertext', () => {
+    const { encrypted, type } = encryptValue('test value', gcm)
+    const data = Buffer.from(encrypted, 'base64')
+    data[data.length - 1] ^= 0x01
+    expect(() => decryptValue(data.toString('base64'), type, gcm)).toThrow('authentication failed')
+  })
+
+  it('should reject a tampered auth tag', () => {
+    const { encrypted, type } = encryptValue('test value', gcm)
+    const data = Buffer.from(encrypted, 'base64')
+    data[12] ^= 0x01
+    expect(() => decryptValue(data.toString('base64'), type, gcm)).toThrow('authentication failed')
+  })
+
+  it('should reject truncated ciphertext', () => {
+    const { encrypted, type } = encryptValue('test value', gcm)
+    const truncated = Buffer.from(encrypted, 'base64').subarray(0, 20).toString('base64')
+    expect(() => decryptValue(truncated, type, gcm)).toThrow('ciphertext is truncated')
+  })
+
+  it('should reject decryption with the wrong key', () => {
+    const { encrypted, type } = encryptValue('test value', gcm)
+    const wrongKey = { algo: 'aes-256-gcm', securityKey: crypto.randomBytes(32) }
+    expect(() => decryptValue(encrypted, type, wrongKey)).toThrow('authentication failed')
+  })
+})
+
+describe('parseKeyId', () => {
+  it('should split the key id from the ciphertext', () => {
+    expect(parseKeyId('v1:YWJj')).toEqual({ keyId: 'v1', encrypted: 'YWJj' })
+    expect(parseKeyId('tenant:v1:YWJj')).toEqual({ keyId: 'tenant:v1', encrypted: 'YWJj' })
+  })
+
+  it('should return a null key id for untagged ciphertext', () => {
+    expect(parseKeyId('YWJj')).toEqual({ keyId: null, encrypted: 'YWJj' })
+  })
+})
+
 describe('Combined utility functions', () => {
   it('should work correctly when compressing and then encrypting data', () => {
     const input = { name: 'test', value: 12345, nested: { prop: 'value' } }
@@ -0,0 +1,199 @@
+import { MemoryAdapter, SuperLRU, md5 } from '../src'
+
+describe('Warm-up', () => {
+  async function seed(storage: MemoryAdapter, count: number, options: { encrypt?: boolean; securityKey?: Buffer } = {}) {
+    const source = new SuperLRU<string, { n: number }>({
+      maxSize: count,
+      writeThrough: storage,
+      namespace: 'users',
+      ...options
+    })
+    for (let i = 0; i < count; i++) {
+      await source.set(`user${i}`, { n: i })
+    }
+    return source
+  }
+
+  it('should load remote entries into memory', async () => {
+    const storage = new MemoryAdapter()
+    await seed(storage, 5)
+
+    const cache = new SuperLRU<string, { n: number }>({ maxSize: 10, writeThrough: storage, namespace: 'users' })
+    const result = await cache.warm()
+
+    expect(result).toEqual({ scanned: 5, loaded: 5, skipped: 0, failed: 0 })
+    expect(cache.size).toBe(5)
+    expect(cache.peek('user3')).toEqual({ n: 3 })
+  })
+
+  it('should keep remote expiry on warmed entries', async () => {
+    const storage = new MemoryAdapter()
+    const source = new SuperLRU<string, string>({ maxSize: 1, writeThrough: storage, namespace: 'users' })
+    await source.set('key1', 'value1', { ttl: 50 })
+
+    const cache = new SuperLRU<string, string>({ maxSize: 1, writeThrough: storage, namespace: 'users' })
+    await cache.warm()
+    expect(cache.peek('key1')).toBe('value1')
+
+    await new Promise((resolve) => setTimeout(resolve, 80))
+    expect(cache.peek('key1')).toBeNull()
+  })
+
+  it('should stop at the limit and never load more than maxSize', async () => {
+    const storage = new MemoryAdapter()
+    await seed(storage, 8)
+
+    const limited = new SuperLRU<string, { n: number }>({ maxSize: 10, writeThrough: storage, namespace: 'users' })
+    expect((await limited.warm({ limit: 3 })).loaded).toBe(3)
+    expect(limited.size).toBe(3)
+
+    const small = new SuperLRU<string, { n: number }>({ maxSize: 4, writeThrough: storage, namespace: 'users' })
+    expect((await small.warm({ limit: 100 })).loaded).toBe(4)
+    expect(small.size).toBe(4)
+  })
+
+  it('should stop scanning once the limit is reached', async () => {
+    const storage = new MemoryAdapter()
+    await seed(storage, 8)
+    // pages of two keys
+    const scan = jest.fn(async (prefix: string, cursor: string | null) => {
+      const keys = (await storage.keys(prefix)).sort()
+      const from = Number(cursor ?? 0)
+      return { keys: keys.slice(from, from + 2), cursor: from + 2 < keys.length ? String(from + 2) : null }
+    })
+    Object.assign(storage, { scan })
+
+    const cache = new SuperLRU<string, { n: number }>({ maxSize: 10, writeThrough: storage, namespace: 'users' })
+    expect(await cache.warm({ limit: 3 })).toEqual({ scanned: 4, loaded: 3, skipped: 0, failed: 0 })
+    expect(scan).toHaveBeenCalledTimes(2)
+  })
+
+  it('should leave keys already in memory alone', async () => {
+    const storage = new MemoryAdapter()
+    await seed(storage, 3)
+
+    const cache = new SuperLRU<string, { n: number }>({ maxSize: 10, writeThrough: storage, namespace: 'users' })
+    await cache.set('user1', { n: 100 })
+    const result = await cache.warm()
+
+    expect(result).toEqual({ scanned: 3, loaded: 2, skipped: 1, failed: 0 })
+    expect(cache.peek('user1')).toEqual({ n: 100 })
+  })
+
+  it('should skip values that do not record their key', async () => {
+    const storage = new MemoryAdapter()
+    await seed(storage, 2)
+    const cache = new SuperLRU<string, { n: number }>({ maxSize: 10, writeThrough: storage, namespace: 'users' })
+    await storage.set('superlru:users:legacy', JSON.stringify({ n: 9 }))
+
+    const result = await cache.warm()
+
+    expect(result).toEqual({ scanned: 3, loaded: 2, skipped: 1, failed: 0 })
+  })
+
+  it('should only scan its own namespace', async () => {
+    const storage = new MemoryAdapter()
+    await seed(storage, 3)
+    const orders = new SuperLRU<string, string>({ maxSize: 10, writeThrough: storage, namespace: 'orders' })
+    await orders.set('order1', 'shipped')
+
+    const cache = new SuperLRU<string, string>({ maxSize: 10, writeThrough: storage, namespace: 'orders' })
+    expect(await cache.warm()).toEqual({ scanned: 1, loaded: 1, skipped: 0, failed: 0 })
+    expect(cache.peek('order1')).toBe('shipped')
+  })
+
+  it('should report progress after every batch', async () => {
+    const storage = new MemoryAdapter()
+    await seed(storage, 250)
+
+    const cache = new SuperLRU<string, { n: number }>({ maxSize: 250, writeThrough: storage, namespace: 'users' })
+    const progress: Array<[number, number]> = []
+    cache.on('warmProgress', (loaded, scanned) => progress.push([loaded, scanned]))
+    await cache.warm()
+
+    expect(progress).toEqual([
+      [100, 100],
+      [200, 200],
+      [250, 250]
+    ])
+  })
+
+  it('should keep serving reads and writes while warming', async () => {
+    const storage = new MemoryAdapter()
+    await seed(storage, 250)
+
+    const cache = new SuperLRU<string, { n: number }>({ maxSize: 250, writeThrough: storage, namespace: 'users' })
+    const warming = cache.warm()
+    await cache.set('user200', { n: -1 })
+    expect(await cache.get('user200')).toEqual({ n: -1 })
+
+    const result = await warming
+    expect(result.loaded).toBe(249)
+    expect(cache.peek('user200')).toEqual({ n: -1 })
+  })
+
+  it('should report batches it cannot read and carry on', async () => {
+    const storage = new MemoryAdapter()
+    await seed(storage, 150)
+    jest.spyOn(storage, 'getMany').mockRejectedValueOnce(new Error('connection reset'))
+
+    const cache = new SuperLRU<string, { n: number }>({ maxSize: 150, writeThrough: storage, namespace: 'users' })
+    const errors: Array<[string, number]> = []
+    cache.on('warmError', (error, remoteKeys) => errors.push([error.message, remoteKeys.length]))
+    const result = await cache.warm()
+
+    expect(result).toEqual({ scanned: 150, loaded: 50, skipped: 0, failed: 100 })
+    expect(errors).toEqual([['connection reset', 100]])
+  })
+
+  it('should report entries it cannot decode', async () => {
+    const storage = new MemoryAdapter()
+    const securityKey = Buffer.alloc(32, 1)
+    await seed(storage, 2, { encrypt: true, securityKey })
+
+    const cache = new SuperLRU<string, { n: number }>({
+      maxSize: 10,
+      writeThrough: storage,
+      namespace: 'users',
+      encrypt: true,
+      securityKey: Buffer.alloc(32, 2)
+    })
+    const errors: string[][] = []
+    cache.on('warmError', (error, remoteKeys) => errors.push(remoteKeys))
+    const result = await cache.warm()
+
+    expect(result).toEqual({ scanned: 2, loaded: 0, skipped: 2, failed: 0 })
+    expect(errors).toHaveLength(2)
+  })
+
+  it('should not store encrypted keys in plain text', async () => {
+    const storage = new MemoryAdapter()
+    const securityKey = Buffer.alloc(32, 1)
+    await seed(storage, 1, { encrypt: true, securityKey })
+
+    const [remoteKey] = await storage.keys('')
+    expect(await storage.get(remoteKey)).not.toContain('user0')
+
+    const cache = new SuperLRU<string, { n: number }>({
+      maxSize: 10,
+      writeThrough: storage,
+      namespace: 'users',
+      encrypt: true,
+      securityKey
+    })
+    await cache.warm()
+    expect(cache.peek('user0')).toEqual({ n: 0 })
+  })
+
+  it('should still read values that do not record their key', async () => {
+    const storage = new MemoryAdapter()
+    const cache = new SuperLRU<string, string>({ maxSize: 10, writeThrough: storage, compress: false })
+    await storage.set(md5('legacy'), JSON.stringify('old value'))
+
+    expect(await cache.get('legacy')).toBe('old value')
+  })
+
+  it('should require write-through', async () => {
+    await expect(new SuperLRU({ maxSize: 1 }).warm()).rejects.toThrow('warm requires writeThrough to be enabled')
+  })
+})